@@ -1,14 +1,21 @@
 // Battle Decks - Admin Interface JavaScript
 
+// Where the presenter's API key is remembered between visits
+const API_KEY_STORAGE_KEY = 'battleDecksApiKey';
+
 class AdminController {
     constructor() {
         // Current session state
         this.currentSession = null;
+        this.hostSecret = null; // Proves to the server that this page created the session
+        this.apiKey = localStorage.getItem(API_KEY_STORAGE_KEY) || ''; // Scopes decks to the presenter's organization
         this.sessionStartTime = null;
 
         // Deck management state
         this.currentDeckId = null;
         this.availableDecks = [];
+        this.shareToken = new URLSearchParams(window.location.search).get('share'); // From an unlisted deck's share link
+        this.progressStreams = new Map(); // deckId -> AbortController for decks still being processed
 
         // Game state
         this.gameState = {
@@ -18,7 +25,12 @@ class AdminController {
             maxSlides: 10,
             votes: { logical: 0, chaotic: 0 },
             timeRemaining: 0,
-            votingOpen: false
+            votingOpen: false,
+            paused: false,
+            presentationDuration: 45000,
+            votingDuration: 10000,
+            awaitingDecision: null,
+            lastResolution: null
         };
 
         // Activity log
@@ -27,21 +39,44 @@ class AdminController {
         // DOM elements
         this.elements = {
             connectionStatus: document.getElementById('connectionStatus'),
+            apiKeyInput: document.getElementById('apiKeyInput'),
+            deckVisibilitySelect: document.getElementById('deckVisibilitySelect'),
             createSessionBtn: document.getElementById('createSessionBtn'),
             sessionInfo: document.getElementById('sessionInfo'),
             sessionCode: document.getElementById('sessionCode'),
             sessionUrl: document.getElementById('sessionUrl'),
             sessionStatus: document.getElementById('sessionStatus'),
             maxSlidesInput: document.getElementById('maxSlidesInput'),
+            presentationSecondsInput: document.getElementById('presentationSecondsInput'),
+            votingSecondsInput: document.getElementById('votingSecondsInput'),
+            rampSecondsInput: document.getElementById('rampSecondsInput'),
+            minPresentationSecondsInput: document.getElementById('minPresentationSecondsInput'),
+            tieBreakPolicySelect: document.getElementById('tieBreakPolicySelect'),
+            noQuorumPolicySelect: document.getElementById('noQuorumPolicySelect'),
+            minTurnoutInput: document.getElementById('minTurnoutInput'),
+            voteChoiceOptions: document.getElementById('voteChoiceOptions'),
+            presentersInput: document.getElementById('presentersInput'),
+            slidesPerTurnInput: document.getElementById('slidesPerTurnInput'),
+            decisionPrompt: document.getElementById('decisionPrompt'),
+            decisionPromptLabel: document.getElementById('decisionPromptLabel'),
+            decisionButtons: document.getElementById('decisionButtons'),
             startGameBtn: document.getElementById('startGameBtn'),
+            endGameBtn: document.getElementById('endGameBtn'),
             resetGameBtn: document.getElementById('resetGameBtn'),
+            replayGameBtn: document.getElementById('replayGameBtn'),
+            pauseResumeBtn: document.getElementById('pauseResumeBtn'),
+            extendBtn: document.getElementById('extendBtn'),
+            skipBtn: document.getElementById('skipBtn'),
+            closeVotingBtn: document.getElementById('closeVotingBtn'),
             gameStatus: document.getElementById('gameStatus'),
             currentPhase: document.getElementById('currentPhase'),
             currentSlideStatus: document.getElementById('currentSlideStatus'),
             maxSlidesStatus: document.getElementById('maxSlidesStatus'),
             timeRemainingStatus: document.getElementById('timeRemainingStatus'),
-            logicalVotes: document.getElementById('logicalVotes'),
-            chaoticVotes: document.getElementById('chaoticVotes'),
+            presentationDurationStatus: document.getElementById('presentationDurationStatus'),
+            votingDurationStatus: document.getElementById('votingDurationStatus'),
+            currentVotes: document.getElementById('currentVotes'),
+            currentPresenterStatus: document.getElementById('currentPresenterStatus'),
             connectedUsers: document.getElementById('connectedUsers'),
             sessionAge: document.getElementById('sessionAge'),
             copySessionBtn: document.getElementById('copySessionBtn'),
@@ -68,9 +103,31 @@ class AdminController {
         // Session management
         this.elements.createSessionBtn.addEventListener('click', () => this.createSession());
 
+        // API key: remembered in this browser, decks reload whenever it changes
+        this.elements.apiKeyInput.value = this.apiKey;
+        this.elements.apiKeyInput.addEventListener('change', (e) => this.setApiKey(e.target.value));
+        this.elements.deckVisibilitySelect.addEventListener('change', (e) => this.setDeckVisibility(e.target.value));
+
         // Game controls
         this.elements.startGameBtn.addEventListener('click', () => this.startGame());
+        this.elements.endGameBtn.addEventListener('click', () => this.endGame());
         this.elements.resetGameBtn.addEventListener('click', () => this.resetGame());
+        this.elements.replayGameBtn.addEventListener('click', () => this.replayGame());
+
+        // Timer controls
+        this.elements.pauseResumeBtn.addEventListener('click', () =>
+            this.sendTimerControl(this.gameState.paused ? 'resume' : 'pause'));
+        this.elements.extendBtn.addEventListener('click', () => this.sendTimerControl('extend', { duration: 15000 }));
+        this.elements.skipBtn.addEventListener('click', () => this.sendTimerControl('skip'));
+        this.elements.closeVotingBtn.addEventListener('click', () => this.sendTimerControl('close-voting'));
+
+        // Presenter tie-break prompt
+        this.elements.decisionButtons.addEventListener('click', (e) => {
+            const button = e.target.closest('button[data-choice]');
+            if (button) {
+                this.decide(button.dataset.choice);
+            }
+        });
 
         // Quick actions
         this.elements.copySessionBtn.addEventListener('click', () => this.copySessionCode());
@@ -86,6 +143,21 @@ class AdminController {
             if (value < 3) e.target.value = 3;
             if (value > 20) e.target.value = 20;
         });
+
+        // Timing inputs - clamp to each input's min/max attributes
+        [
+            this.elements.presentationSecondsInput,
+            this.elements.votingSecondsInput,
+            this.elements.rampSecondsInput,
+            this.elements.minPresentationSecondsInput
+        ].forEach(input => {
+            input.addEventListener('change', (e) => {
+                const value = parseInt(e.target.value);
+                if (isNaN(value)) return;
+                if (value < parseInt(e.target.min)) e.target.value = e.target.min;
+                if (value > parseInt(e.target.max)) e.target.value = e.target.max;
+            });
+        });
     }
 
     async createSession() {
@@ -96,7 +168,8 @@ class AdminController {
             const response = await fetch('/create-session', {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json'
+                    'Content-Type': 'application/json',
+                    ...this.getApiKeyHeaders()
                 }
             });
 
@@ -104,6 +177,7 @@ class AdminController {
 
             if (result.success) {
                 this.currentSession = result.sessionId;
+                this.hostSecret = result.hostSecret;
                 this.sessionStartTime = Date.now();
 
                 // Update UI
@@ -123,8 +197,8 @@ class AdminController {
                 this.startStatusPolling();
 
             } else {
-                this.showSessionStatus('❌ Failed to create session', 'error');
-                this.addLogEntry('Failed to create session', 'error');
+                this.showSessionStatus(`❌ ${result.error || 'Failed to create session'}`, 'error');
+                this.addLogEntry(`Failed to create session: ${result.error || 'unknown error'}`, 'error');
             }
 
         } catch (error) {
@@ -148,6 +222,7 @@ class AdminController {
         }
 
         const maxSlides = parseInt(this.elements.maxSlidesInput.value) || 10;
+        const timing = this.getTimingSettings();
 
         this.elements.startGameBtn.disabled = true;
         this.elements.startGameBtn.textContent = 'Starting...';
@@ -155,13 +230,8 @@ class AdminController {
         try {
             const response = await fetch(`/session/${this.currentSession}/start`, {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    deckId: this.currentDeckId || 'default',
-                    maxSlides: maxSlides
-                })
+                headers: this.getHostHeaders(),
+                body: JSON.stringify(this.getStartSettings(maxSlides, timing))
             });
 
             const result = await response.json();
@@ -170,7 +240,7 @@ class AdminController {
                 this.gameState = { ...this.gameState, ...result.gameState };
                 this.elements.resetGameBtn.disabled = false;
                 this.showGameStatus('✅ Game started!', 'success');
-                this.addLogEntry(`Game started with deck ${this.currentDeckId} (${maxSlides} max slides)`, 'info');
+                this.addLogEntry(`Game started with deck ${this.currentDeckId} (${maxSlides} max slides, ${timing.presentationDuration / 1000}s/${timing.votingDuration / 1000}s rounds)`, 'info');
                 this.updateStatus();
             } else {
                 this.showGameStatus(`❌ ${result.error}`, 'error');
@@ -186,31 +256,296 @@ class AdminController {
         }
     }
 
+    // Control routes only accept requests carrying the host secret from /create-session
+    getHostHeaders() {
+        return {
+            'Content-Type': 'application/json',
+            'X-Host-Secret': this.hostSecret
+        };
+    }
+
+    // Deck routes (and sessions that play uploaded decks) need the organization's API key
+    getApiKeyHeaders() {
+        return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+    }
+
+    setApiKey(apiKey) {
+        this.apiKey = apiKey.trim();
+        if (this.apiKey) {
+            localStorage.setItem(API_KEY_STORAGE_KEY, this.apiKey);
+        } else {
+            localStorage.removeItem(API_KEY_STORAGE_KEY);
+        }
+
+        // Progress streams belong to the previous organization
+        for (const controller of this.progressStreams.values()) controller.abort();
+        this.progressStreams.clear();
+
+        this.currentDeckId = null;
+        this.loadDecks();
+    }
+
+    getStartSettings(maxSlides, timing) {
+        const deck = this.availableDecks.find(d => d.deckId === this.currentDeckId);
+
+        return {
+            deckId: this.currentDeckId || 'default',
+            // Unlisted decks from other organizations can only be played with their share link
+            shareToken: deck && deck.shared ? this.shareToken : undefined,
+            maxSlides: maxSlides,
+            ...timing,
+            ...this.getVotePolicySettings(),
+            ...this.getTournamentSettings()
+        };
+    }
+
+    // Two or more presenter names turn the game into a tournament
+    getTournamentSettings() {
+        const presenters = this.elements.presentersInput.value
+            .split('\n')
+            .map(name => name.trim())
+            .filter(name => name.length > 0);
+
+        if (presenters.length < 2) return {};
+
+        return {
+            presenters,
+            slidesPerTurn: Math.max(1, parseInt(this.elements.slidesPerTurnInput.value) || 3)
+        };
+    }
+
+    getVotePolicySettings() {
+        const choices = Array.from(this.elements.voteChoiceOptions.querySelectorAll('input[type="checkbox"]:checked'))
+            .map(input => input.value);
+
+        return {
+            choices,
+            tieBreakPolicy: this.elements.tieBreakPolicySelect.value,
+            noQuorumPolicy: this.elements.noQuorumPolicySelect.value,
+            minTurnout: Math.max(0, parseInt(this.elements.minTurnoutInput.value) || 0)
+        };
+    }
+
+    async decide(choice) {
+        if (!this.currentSession) return;
+
+        this.setDecisionButtonsDisabled(true);
+
+        try {
+            const response = await fetch(`/session/${this.currentSession}/decide`, {
+                method: 'POST',
+                headers: this.getHostHeaders(),
+                body: JSON.stringify({ choice })
+            });
+
+            const result = await response.json();
+
+            if (result.success) {
+                this.gameState = { ...this.gameState, ...result.gameState };
+                this.addLogEntry(`Presenter decided: ${choice}`, 'info');
+                this.updateStatus();
+            } else {
+                this.showGameStatus(`❌ ${result.error}`, 'error');
+                this.addLogEntry(`Decision failed: ${result.error}`, 'error');
+            }
+
+        } catch (error) {
+            this.addLogEntry(`Decision error: ${error.message}`, 'error');
+            this.showGameStatus('❌ Connection error. Please try again.', 'error');
+        } finally {
+            this.setDecisionButtonsDisabled(false);
+        }
+    }
+
+    setDecisionButtonsDisabled(disabled) {
+        this.elements.decisionButtons.querySelectorAll('button').forEach(button => {
+            button.disabled = disabled;
+        });
+    }
+
+    updateDecisionPrompt() {
+        const pending = this.gameState.awaitingDecision;
+
+        if (pending) {
+            this.elements.decisionPromptLabel.textContent = pending === 'tie' ? 'Break the tie:' : 'No quorum, pick:';
+
+            const choices = getOpenChoices(this.gameState);
+            const key = choices.join(',');
+            if (this.elements.decisionButtons.dataset.choices !== key) {
+                this.elements.decisionButtons.dataset.choices = key;
+                this.elements.decisionButtons.innerHTML = choices
+                    .map(choice => `<button class="btn btn-admin" data-choice="${choice}">${formatChoice(choice)}</button>`)
+                    .join(' ');
+            }
+            this.elements.decisionPrompt.classList.remove('hidden');
+        } else {
+            this.elements.decisionPrompt.classList.add('hidden');
+        }
+
+        // Log each round's resolution once
+        const resolution = this.gameState.lastResolution;
+        if (resolution && resolution.resolvedAt !== this.lastLoggedResolutionAt) {
+            this.lastLoggedResolutionAt = resolution.resolvedAt;
+            const detail = resolution.method === 'majority' ? 'majority' : `${resolution.reason} → ${resolution.method}`;
+            const note = resolution.note ? ` - ${resolution.note}` : '';
+            this.addLogEntry(`Round ${resolution.round}: ${resolution.winner} wins ${formatTally(resolution.votes, Object.keys(resolution.votes))} (${detail})${note}`, 'info');
+
+            if (resolution.slideFallback) {
+                const fallback = resolution.slideFallback === 'ranking' ?
+                    `next-best ${resolution.winner} slide from the full ranking` : 'a random unused slide';
+                this.addLogEntry(`All nearby ${resolution.winner} slides were used, so the game moved to ${fallback}`, 'warning');
+            }
+        }
+    }
+
+    // Log the final tournament standings once when the game finishes
+    logLeaderboard() {
+        const leaderboard = this.gameState.leaderboard;
+        if (this.gameState.phase !== 'finished' || !leaderboard || leaderboard.length === 0) {
+            this.leaderboardLogged = false;
+            return;
+        }
+        if (this.leaderboardLogged) return;
+
+        this.leaderboardLogged = true;
+        leaderboard.forEach(entry => {
+            this.addLogEntry(`${entry.rank ?? '-'}. ${entry.presenter}: ${entry.averageScore ?? '-'}⭐ from ${entry.scores} scores`, 'info');
+        });
+    }
+
+    // Log the audience rating once when a non-tournament game finishes
+    logRating() {
+        const rating = this.gameState.rating;
+        if (this.gameState.phase !== 'finished' || !rating || rating.ratings === 0) {
+            this.ratingLogged = false;
+            return;
+        }
+        if (this.ratingLogged) return;
+
+        this.ratingLogged = true;
+        const tags = Object.entries(rating.tags || {})
+            .map(([tag, count]) => `${RATING_TAG_INFO[tag] ? RATING_TAG_INFO[tag].label : tag} ×${count}`)
+            .join(', ');
+        this.addLogEntry(`Audience rating: ${rating.averageScore}⭐ from ${rating.ratings} ratings${tags ? ` (${tags})` : ''}`, 'info');
+    }
+
+    async sendTimerControl(action, body = null) {
+        if (!this.currentSession) return;
+
+        try {
+            const response = await fetch(`/session/${this.currentSession}/${action}`, {
+                method: 'POST',
+                headers: this.getHostHeaders(),
+                body: body ? JSON.stringify(body) : undefined
+            });
+
+            const result = await response.json();
+
+            if (result.success) {
+                this.gameState = { ...this.gameState, ...result.gameState };
+                this.addLogEntry(`Timer control: ${action}`, 'info');
+                this.updateStatus();
+            } else {
+                this.showGameStatus(`❌ ${result.error}`, 'error');
+                this.addLogEntry(`Timer control ${action} failed: ${result.error}`, 'error');
+            }
+
+        } catch (error) {
+            this.addLogEntry(`Timer control error: ${error.message}`, 'error');
+            this.showGameStatus('❌ Connection error. Please try again.', 'error');
+        }
+    }
+
+    updateTimerControls() {
+        const phase = this.gameState.phase;
+        const running = !!this.currentSession && (phase === 'presenting' || phase === 'voting' || phase === 'scoring' || phase === 'rating');
+
+        this.elements.pauseResumeBtn.disabled = !running;
+        this.elements.pauseResumeBtn.textContent = this.gameState.paused ? '▶️ Resume' : '⏸️ Pause';
+        this.elements.extendBtn.disabled = !running;
+        this.elements.skipBtn.disabled = !running;
+        this.elements.closeVotingBtn.disabled = !running || phase !== 'voting';
+
+        this.elements.endGameBtn.disabled = !running;
+        this.elements.resetGameBtn.disabled = !this.currentSession || phase === 'waiting';
+        this.elements.replayGameBtn.disabled = !this.currentSession || !this.currentDeckId;
+    }
+
+    getTimingSettings() {
+        const presentationSeconds = parseInt(this.elements.presentationSecondsInput.value) || 45;
+        const votingSeconds = parseInt(this.elements.votingSecondsInput.value) || 10;
+        const rampSeconds = parseInt(this.elements.rampSecondsInput.value) || 0;
+        const minPresentationSeconds = parseInt(this.elements.minPresentationSecondsInput.value) || 5;
+
+        const timing = {
+            presentationDuration: presentationSeconds * 1000,
+            votingDuration: votingSeconds * 1000
+        };
+
+        // Only send a ramp when the presenter asked for one
+        if (rampSeconds !== 0) {
+            timing.durationRamp = {
+                presentationStep: rampSeconds * 1000,
+                votingStep: 0,
+                minPresentation: minPresentationSeconds * 1000
+            };
+        }
+
+        return timing;
+    }
+
+    async endGame() {
+        if (!this.currentSession) return;
+
+        const confirmed = confirm('End the current game now? The audience will see the final screen.');
+        if (!confirmed) return;
+
+        await this.sendGameControl('end', null, '⏹️ Game ended');
+    }
+
     async resetGame() {
         if (!this.currentSession) return;
 
-        const confirmed = confirm('Are you sure you want to reset the game? This will end the current session.');
+        const confirmed = confirm('Are you sure you want to reset the game? Progress and votes will be cleared, but the room code stays the same.');
+        if (!confirmed) return;
+
+        await this.sendGameControl('reset', null, 'Game reset. Start a new game when ready - the audience can stay connected.');
+    }
+
+    async replayGame() {
+        if (!this.currentSession || !this.currentDeckId) return;
+
+        const confirmed = confirm(`Start a new game with deck ${this.currentDeckId}? The current game will be discarded.`);
         if (!confirmed) return;
 
+        const maxSlides = parseInt(this.elements.maxSlidesInput.value) || 10;
+        await this.sendGameControl('replay', this.getStartSettings(maxSlides, this.getTimingSettings()), '✅ New game started on the same room code!');
+    }
+
+    // End, reset or replay the game on the server; the room code and audience connections are kept
+    async sendGameControl(action, body, successMessage) {
         try {
-            // For now, just create a new session
-            this.addLogEntry('Game reset requested', 'warning');
-            this.currentSession = null;
-            this.sessionStartTime = null;
-
-            // Reset UI
-            this.elements.sessionInfo.classList.add('hidden');
-            this.elements.startGameBtn.disabled = true;
-            this.elements.resetGameBtn.disabled = true;
-            this.elements.copySessionBtn.disabled = true;
-            this.elements.copyUrlBtn.disabled = true;
-
-            this.showGameStatus('Game reset. Create a new session to continue.', 'info');
-            this.stopStatusPolling();
-            this.resetStatus();
+            const response = await fetch(`/session/${this.currentSession}/${action}`, {
+                method: 'POST',
+                headers: this.getHostHeaders(),
+                body: body ? JSON.stringify(body) : undefined
+            });
+
+            const result = await response.json();
+
+            if (result.success) {
+                this.gameState = { ...this.gameState, ...result.gameState };
+                this.showGameStatus(successMessage, 'success');
+                this.addLogEntry(`Game control: ${action}`, 'warning');
+                this.updateStatus();
+            } else {
+                this.showGameStatus(`❌ ${result.error}`, 'error');
+                this.addLogEntry(`Game control ${action} failed: ${result.error}`, 'error');
+            }
 
         } catch (error) {
-            this.addLogEntry(`Reset game error: ${error.message}`, 'error');
+            this.addLogEntry(`Game control error: ${error.message}`, 'error');
+            this.showGameStatus('❌ Connection error. Please try again.', 'error');
         }
     }
 
@@ -218,50 +553,162 @@ class AdminController {
 
     async loadDecks() {
         try {
-            const response = await fetch('/api/decks');
+            // Without an API key only the public community decks are listed
+            const response = await fetch('/api/decks', { headers: this.getApiKeyHeaders() });
+            if (response.status === 401) throw new Error('API key was not accepted');
             if (!response.ok) throw new Error('Failed to load decks');
 
             const data = await response.json();
             this.availableDecks = data.decks || [];
+            await this.loadSharedDeck();
             this.displayDecks();
+            this.watchProcessingDecks();
             this.addLogEntry(`Loaded ${this.availableDecks.length} deck(s)`, 'info');
         } catch (error) {
             this.addLogEntry(`Error loading decks: ${error.message}`, 'error');
         }
     }
 
+    // Opened from a share link: add the unlisted deck to the list and preselect it
+    async loadSharedDeck() {
+        if (!this.shareToken) return;
+
+        try {
+            const response = await fetch(`/api/decks/shared/${encodeURIComponent(this.shareToken)}`, { headers: this.getApiKeyHeaders() });
+            if (!response.ok) throw new Error('Share link is invalid or has been revoked');
+
+            const { deck } = await response.json();
+            if (!this.availableDecks.some(d => d.deckId === deck.deckId)) {
+                this.availableDecks.push({ ...deck, shared: true });
+            }
+            this.currentDeckId = deck.deckId;
+        } catch (error) {
+            this.addLogEntry(`Error loading shared deck: ${error.message}`, 'error');
+            this.shareToken = null;
+        }
+    }
+
+    // Follow the progress of our decks that are still being processed
+    watchProcessingDecks() {
+        for (const deck of this.availableDecks) {
+            if (deck.owned && deck.status === 'processing' && !this.progressStreams.has(deck.deckId)) {
+                this.followDeckProgress(deck);
+            }
+        }
+    }
+
+    // fetch rather than EventSource, which cannot send the Authorization header
+    async followDeckProgress(deck) {
+        const controller = new AbortController();
+        this.progressStreams.set(deck.deckId, controller);
+        let lastStep = null;
+
+        try {
+            const response = await fetch(`/api/decks/${deck.deckId}/progress`, {
+                headers: { Accept: 'text/event-stream', ...this.getApiKeyHeaders() },
+                signal: controller.signal
+            });
+            if (!response.ok || !response.body) throw new Error('Progress is not available');
+
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+
+                // Events are separated by a blank line
+                buffer += value;
+                let boundary;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const lines = buffer.slice(0, boundary).split('\n');
+                    buffer = buffer.slice(boundary + 2);
+
+                    const event = (lines.find(line => line.startsWith('event:')) || 'event: message').slice(6).trim();
+                    const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+                    if (!data) continue;
+
+                    const progress = JSON.parse(data);
+                    if (progress.slide && progress.slide.error) {
+                        this.addLogEntry(`${deck.name}: ${progress.slide.slideId} failed - ${progress.slide.error}`, 'error');
+                    }
+                    if (progress.currentStep && progress.currentStep !== lastStep) {
+                        lastStep = progress.currentStep;
+                        this.addLogEntry(`${deck.name}: ${progress.currentStep}`, 'info');
+                    }
+
+                    if (event === 'done') {
+                        this.addLogEntry(
+                            progress.status === 'ready' ? `${deck.name} is ready` : `${deck.name} failed: ${progress.error || 'unknown error'}`,
+                            progress.status === 'ready' ? 'info' : 'error'
+                        );
+                        await reader.cancel();
+                        this.progressStreams.delete(deck.deckId);
+                        this.loadDecks();
+                        return;
+                    }
+                }
+            }
+        } catch (error) {
+            if (error.name !== 'AbortError') {
+                this.addLogEntry(`Error following ${deck.name}: ${error.message}`, 'error');
+            }
+        }
+
+        this.progressStreams.delete(deck.deckId);
+    }
+
     displayDecks() {
         const deckSelect = document.getElementById('deckSelect');
         if (!deckSelect) return;
 
-        if (this.availableDecks.length === 0) {
+        const readyDecks = this.availableDecks.filter(deck => deck.status === 'ready');
+        if (readyDecks.length === 0) {
             deckSelect.innerHTML = '<option value="">No decks available</option>';
             deckSelect.disabled = true;
+            this.updateVisibilityControl();
             return;
         }
 
-        deckSelect.innerHTML = '<option value="">Select a deck...</option>' +
-            this.availableDecks
-                .filter(deck => deck.status === 'ready')
-                .map(deck => `<option value="${deck.deckId}">${deck.name} (${deck.slideCount} slides)</option>`)
-                .join('');
+        const groups = [
+            { label: 'Your decks', decks: readyDecks.filter(deck => deck.owned) },
+            { label: 'Shared with you', decks: readyDecks.filter(deck => !deck.owned && deck.shared) },
+            { label: 'Community decks', decks: readyDecks.filter(deck => !deck.owned && !deck.shared) }
+        ];
+
+        // Built with DOM nodes: names of other organizations' decks are untrusted
+        deckSelect.innerHTML = '<option value="">Select a deck...</option>';
+        for (const group of groups.filter(group => group.decks.length > 0)) {
+            const optgroup = document.createElement('optgroup');
+            optgroup.label = group.label;
+            for (const deck of group.decks) {
+                const flagged = (deck.flaggedSlides || []).length;
+                const label = `${deck.name} (${deck.slideCount} slides${flagged ? `, ${flagged} flagged by moderation` : ''})`;
+                optgroup.appendChild(new Option(label, deck.deckId));
+            }
+            deckSelect.appendChild(optgroup);
+        }
 
         deckSelect.disabled = false;
+        deckSelect.value = this.currentDeckId || '';
+        this.updateVisibilityControl();
 
-        // Add change event listener
-        deckSelect.addEventListener('change', (e) => {
+        // Replace (rather than stack) the change handler, as decks reload when the API key changes
+        deckSelect.onchange = (e) => {
             this.selectDeck(e.target.value);
-        });
+        };
     }
 
     selectDeck(deckId) {
         if (!deckId) {
             this.currentDeckId = null;
+            this.updateVisibilityControl();
             this.addLogEntry('Deck deselected', 'info');
             return;
         }
 
         this.currentDeckId = deckId;
+        this.updateVisibilityControl();
         const deck = this.availableDecks.find(d => d.deckId === deckId);
         if (deck) {
             this.addLogEntry(`Selected deck: ${deck.name} (${deck.slideCount} slides)`, 'info');
@@ -273,6 +720,48 @@ class AdminController {
         }
     }
 
+    // Only the owning organization can change who sees a deck
+    updateVisibilityControl() {
+        const deck = this.availableDecks.find(d => d.deckId === this.currentDeckId);
+        this.elements.deckVisibilitySelect.disabled = !(deck && deck.owned);
+        this.elements.deckVisibilitySelect.value = (deck && deck.visibility) || 'private';
+    }
+
+    async setDeckVisibility(visibility) {
+        const deck = this.availableDecks.find(d => d.deckId === this.currentDeckId);
+        if (!deck || !deck.owned) return;
+
+        try {
+            const response = await fetch(`/api/decks/${deck.deckId}/visibility`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...this.getApiKeyHeaders()
+                },
+                body: JSON.stringify({ visibility })
+            });
+
+            const result = await response.json();
+            if (!result.success) throw new Error(result.error || 'Failed to update visibility');
+
+            deck.visibility = result.visibility;
+            this.addLogEntry(`Deck ${deck.name} is now ${result.visibility}`, 'info');
+
+            if (result.shareUrl) {
+                this.addLogEntry(`Share link: ${result.shareUrl}`, 'info');
+                try {
+                    await navigator.clipboard.writeText(result.shareUrl);
+                    this.showGameStatus('✅ Share link copied to clipboard', 'success');
+                } catch (error) {
+                    prompt('Copy this share link:', result.shareUrl);
+                }
+            }
+        } catch (error) {
+            this.addLogEntry(`Error updating deck visibility: ${error.message}`, 'error');
+            this.updateVisibilityControl();
+        }
+    }
+
     // ==================== END DECK MANAGEMENT ====================
 
     async refreshStatus() {
@@ -331,17 +820,32 @@ class AdminController {
         const timeRemaining = this.gameState.timeRemaining || 0;
         if (timeRemaining > 0) {
             const seconds = Math.ceil(timeRemaining / 1000);
-            this.elements.timeRemainingStatus.textContent = `${seconds}s`;
+            this.elements.timeRemainingStatus.textContent = this.gameState.paused ? `⏸ ${seconds}s` : `${seconds}s`;
         } else {
             this.elements.timeRemainingStatus.textContent = '-';
         }
 
+        // Phase windows for the current round (ramp already applied server-side)
+        this.elements.presentationDurationStatus.textContent = this.gameState.presentationDuration ?
+            `${Math.round(this.gameState.presentationDuration / 1000)}s` : '-';
+        this.elements.votingDurationStatus.textContent = this.gameState.votingDuration ?
+            `${Math.round(this.gameState.votingDuration / 1000)}s` : '-';
+
         // Update vote counts
-        this.elements.logicalVotes.textContent = this.gameState.votes?.logical || 0;
-        this.elements.chaoticVotes.textContent = this.gameState.votes?.chaotic || 0;
+        const choices = getOpenChoices(this.gameState);
+        this.elements.currentVotes.textContent = choices
+            .map(choice => `${getChoiceInfo(choice).emoji} ${this.gameState.votes?.[choice] || 0}`)
+            .join(' vs ');
+
+        this.elements.currentPresenterStatus.textContent = this.gameState.currentPresenter || '-';
+        this.logLeaderboard();
+        this.logRating();
 
         // Placeholder for connected users (would need WebSocket connection counting)
         this.elements.connectedUsers.textContent = '1+';
+
+        this.updateTimerControls();
+        this.updateDecisionPrompt();
     }
 
     resetStatus() {
@@ -349,10 +853,17 @@ class AdminController {
         this.elements.currentSlideStatus.textContent = '-';
         this.elements.maxSlidesStatus.textContent = '-';
         this.elements.timeRemainingStatus.textContent = '-';
-        this.elements.logicalVotes.textContent = '0';
-        this.elements.chaoticVotes.textContent = '0';
+        this.elements.presentationDurationStatus.textContent = '-';
+        this.elements.votingDurationStatus.textContent = '-';
+        this.elements.currentVotes.textContent = '0 vs 0';
+        this.elements.currentPresenterStatus.textContent = '-';
         this.elements.connectedUsers.textContent = '0';
         this.elements.sessionAge.textContent = '-';
+        this.gameState.phase = 'waiting';
+        this.gameState.paused = false;
+        this.gameState.awaitingDecision = null;
+        this.updateTimerControls();
+        this.updateDecisionPrompt();
     }
 
     startSessionAgeTimer() {
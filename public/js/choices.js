@@ -0,0 +1,40 @@
+// Battle Decks - Vote choice and rating tag labels shared by the vote, display and admin pages
+
+const VOTE_CHOICE_INFO = {
+    logical: { emoji: '📊', label: 'Logical', description: 'Most similar slide' },
+    chaotic: { emoji: '🎲', label: 'Chaotic', description: 'Least similar slide' },
+    moderate: { emoji: '⚖️', label: 'Moderate', description: 'Somewhere in between' },
+    wildcard: { emoji: '🃏', label: 'Wildcard', description: 'Any unused slide at random' },
+    callback: { emoji: '🔁', label: 'Callback', description: 'Echoes an earlier slide' }
+};
+
+const DEFAULT_VOTE_CHOICES = ['logical', 'chaotic'];
+
+function getChoiceInfo(choice) {
+    return VOTE_CHOICE_INFO[choice] || { emoji: '❔', label: choice, description: '' };
+}
+
+function formatChoice(choice) {
+    const info = getChoiceInfo(choice);
+    return `${info.emoji} ${info.label}`;
+}
+
+// Choices currently open for voting: runoff candidates take precedence
+function getOpenChoices(state) {
+    if (state && state.runoffChoices && state.runoffChoices.length) {
+        return state.runoffChoices;
+    }
+    return (state && state.choices && state.choices.length) ? state.choices : DEFAULT_VOTE_CHOICES;
+}
+
+function formatTally(votes, choices) {
+    return choices.map(choice => (votes && votes[choice]) || 0).join('–');
+}
+
+// Optional tags for the end-of-game rating
+const RATING_TAG_INFO = {
+    funniest: { emoji: '😂', label: 'Funniest' },
+    mostCreative: { emoji: '🎨', label: 'Most Creative' },
+    smoothest: { emoji: '😎', label: 'Smoothest' },
+    bestRecovery: { emoji: '🛟', label: 'Best Recovery' }
+};
@@ -1,5 +1,8 @@
 // Battle Decks - Display Interface JavaScript
 
+// Close code the server uses once a finished or abandoned session has been cleaned up
+const SESSION_CLOSED_CODE = 4000;
+
 class DisplayController {
     constructor() {
         // WebSocket connection
@@ -14,10 +17,12 @@ class DisplayController {
             currentSlide: null,
             phase: 'waiting',
             votes: { logical: 0, chaotic: 0 },
+            choices: DEFAULT_VOTE_CHOICES,
             timeRemaining: 0,
             slideCount: 1,
             maxSlides: 10,
-            votingOpen: false
+            votingOpen: false,
+            paused: false
         };
 
         // Timer management
@@ -25,6 +30,14 @@ class DisplayController {
         this.timerStartTime = 0;
         this.timerDuration = 0;
 
+        // Round-by-round recap and tournament standings, sent by the server when the game finishes
+        this.history = null;
+        this.leaderboard = null;
+
+        // Footer vote bars, keyed by choice
+        this.renderedChoices = '';
+        this.choiceCounts = {};
+
         // DOM elements
         this.elements = {
             connectionStatus: document.getElementById('connectionStatus'),
@@ -32,6 +45,8 @@ class DisplayController {
             sessionId: document.getElementById('sessionId'),
             currentSlideNum: document.getElementById('currentSlideNum'),
             maxSlides: document.getElementById('maxSlides'),
+            presenterInfo: document.getElementById('presenterInfo'),
+            presenterName: document.getElementById('presenterName'),
             phaseIndicator: document.getElementById('phaseIndicator'),
             phaseLabel: document.getElementById('phaseLabel'),
             slideContainer: document.getElementById('slideContainer'),
@@ -39,8 +54,7 @@ class DisplayController {
             slideImage: document.getElementById('slideImage'),
             timerDisplay: document.getElementById('timerDisplay'),
             timerText: document.getElementById('timerText'),
-            logicalCount: document.getElementById('logicalCount'),
-            chaoticCount: document.getElementById('chaoticCount')
+            voteDisplay: document.getElementById('voteDisplay')
         };
 
         this.init();
@@ -48,6 +62,7 @@ class DisplayController {
 
     init() {
         this.setupEventListeners();
+        this.renderVoteBars();
         this.connectWebSocket();
         this.fetchInitialGameState();
         this.log('Display interface initialized');
@@ -103,10 +118,9 @@ class DisplayController {
                 this.connectionAttempts = 0;
                 this.updateConnectionStatus('connected');
 
-                // Send join message
+                // Send join message (displays watch without a voter identity)
                 this.sendMessage({
-                    type: 'join',
-                    userId: 'display_' + Math.random().toString(36).substring(2, 11)
+                    type: 'join'
                 });
             };
 
@@ -121,6 +135,11 @@ class DisplayController {
 
             this.ws.onclose = (event) => {
                 this.log(`WebSocket closed: ${event.code} - ${event.reason}`);
+                if (event.code === SESSION_CLOSED_CODE) {
+                    // The session was cleaned up; there is nothing to reconnect to
+                    this.updateConnectionStatus('closed');
+                    return;
+                }
                 this.updateConnectionStatus('disconnected');
                 this.scheduleReconnect();
             };
@@ -162,7 +181,7 @@ class DisplayController {
                 this.updateGameState(message.data);
                 break;
             case 'voteUpdate':
-                this.log(`🗳️ Vote update - Logical: ${message.data.votes?.logical}, Chaotic: ${message.data.votes?.chaotic}`, 'info');
+                this.log(`🗳️ Vote update - ${formatTally(message.data.votes, getOpenChoices(this.gameState))}`, 'info');
                 this.updateVotes(message.data.votes);
                 break;
             case 'slideChange':
@@ -172,6 +191,21 @@ class DisplayController {
             case 'timerUpdate':
                 this.updateTimer(message.data);
                 break;
+            case 'history':
+                this.log(`📜 History - ${message.data.rounds?.length || 0} rounds, path: ${(message.data.path || []).join(' → ')}`, 'info');
+                this.showHistory(message.data);
+                break;
+            case 'ratingUpdate':
+                this.showRating(message.data.rating);
+                break;
+            case 'leaderboard':
+                this.log(`🏆 Leaderboard - ${(message.data.leaderboard || []).map(entry => `${entry.presenter}: ${entry.averageScore ?? '-'}`).join(', ')}`, 'info');
+                this.showLeaderboard(message.data.leaderboard);
+                break;
+            case 'voteResult':
+                this.log(`🏆 Round ${message.data.round}: ${message.data.winner} (${message.data.reason} → ${message.data.method})`, 'info');
+                this.showVoteResult(message.data);
+                break;
             case 'pong':
                 // Heartbeat response
                 break;
@@ -201,6 +235,13 @@ class DisplayController {
             this.elements.maxSlides.textContent = state.maxSlides;
         }
 
+        // Tournament: show whose turn it is
+        this.elements.presenterInfo.classList.toggle('hidden', !this.gameState.currentPresenter);
+        this.elements.presenterName.textContent = this.gameState.currentPresenter || '-';
+
+        // Rebuild the vote bars if the session (or a runoff) changed the choices on offer
+        this.renderVoteBars();
+
         // Update phase
         if (state.phase) {
             this.updatePhase(state.phase);
@@ -218,12 +259,40 @@ class DisplayController {
 
         // Update timer
         if (state.timeRemaining !== undefined) {
-            this.startTimer(state.timeRemaining);
+            this.applyTimer(state.timeRemaining);
         }
 
         this.log(`Game state updated: ${state.phase} - slide ${state.slideCount}/${state.maxSlides}`);
     }
 
+    updateTimer(update) {
+        if (!update) return;
+
+        this.log(`⏱️ Timer ${update.action} - ${Math.ceil(update.timeRemaining / 1000)}s remaining${update.paused ? ' (paused)' : ''}`, 'info');
+
+        this.gameState.paused = update.paused;
+        this.gameState.timeRemaining = update.timeRemaining;
+
+        this.updatePhase(update.phase);
+        this.applyTimer(update.timeRemaining);
+    }
+
+    applyTimer(timeRemaining) {
+        // Progress ring is relative to the full window for this phase
+        const phaseDurations = {
+            voting: this.gameState.votingDuration,
+            scoring: this.gameState.scoringDuration,
+            rating: this.gameState.ratingDuration
+        };
+        const phaseDuration = phaseDurations[this.gameState.phase] || this.gameState.presentationDuration;
+
+        if (this.gameState.paused) {
+            this.freezeTimer(timeRemaining, phaseDuration);
+        } else {
+            this.startTimer(timeRemaining, phaseDuration);
+        }
+    }
+
     updatePhase(phase) {
         const previousPhase = this.gameState.phase;
         this.gameState.phase = phase;
@@ -239,14 +308,29 @@ class DisplayController {
             waiting: 'Waiting',
             presenting: 'Presenting',
             voting: 'Voting',
+            scoring: 'Scoring',
+            rating: 'Rating',
             finished: 'Finished'
         };
 
         this.elements.phaseIndicator.textContent = phaseLabels[phase] || phase;
-        this.elements.phaseLabel.textContent = phaseLabels[phase] || phase;
+        let label = phaseLabels[phase] || phase;
+        if (this.gameState.paused && phase !== 'finished') {
+            label = '⏸ Paused';
+        } else if (phase === 'voting' && this.gameState.awaitingDecision) {
+            label = 'Presenter Deciding';
+        } else if (phase === 'voting' && this.gameState.runoff) {
+            label = 'Runoff Vote';
+        } else if (phase === 'scoring') {
+            label = `Score ${this.gameState.currentPresenter || 'the presenter'} 1-5⭐`;
+        } else if (phase === 'rating') {
+            const average = this.gameState.rating && this.gameState.rating.averageScore;
+            label = `Rate the presenter 1-5⭐${average != null ? ` (avg ${average})` : ''}`;
+        }
+        this.elements.phaseLabel.textContent = label;
 
         // Update timer display style based on phase
-        if (phase === 'voting') {
+        if (phase === 'voting' || phase === 'scoring' || phase === 'rating') {
             this.elements.timerDisplay.classList.add('warning');
             this.elements.timerDisplay.classList.remove('danger');
         } else if (phase === 'finished') {
@@ -273,17 +357,46 @@ class DisplayController {
             this.elements.timerDisplay.style.display = 'flex';
             if (voteDisplay) voteDisplay.style.display = 'grid';
 
-            // Hide any completion message
+            // Hide any completion message (and forget the recap if the room was reset)
             this.hideGameCompletionMessage();
+            this.history = null;
+            this.leaderboard = null;
+            if (phase === 'waiting') {
+                this.gameState.rating = null;
+            }
+        }
+    }
+
+    renderVoteBars() {
+        const choices = getOpenChoices(this.gameState);
+        const key = choices.join(',');
+        if (key === this.renderedChoices) return;
+        this.renderedChoices = key;
+
+        this.elements.voteDisplay.innerHTML = '';
+        this.choiceCounts = {};
+
+        for (const choice of choices) {
+            const bar = document.createElement('div');
+            bar.className = `footer-vote-bar ${choice}`;
+            bar.innerHTML = `
+                <div class="footer-vote-count">0</div>
+                <div class="footer-vote-label">${formatChoice(choice)}</div>
+            `;
+            this.elements.voteDisplay.appendChild(bar);
+            this.choiceCounts[choice] = bar.querySelector('.footer-vote-count');
         }
+
+        this.updateVotes(this.gameState.votes);
     }
 
     updateVotes(votes) {
         if (!votes) return;
 
         this.gameState.votes = votes;
-        this.elements.logicalCount.textContent = votes.logical || 0;
-        this.elements.chaoticCount.textContent = votes.chaotic || 0;
+        for (const [choice, countElement] of Object.entries(this.choiceCounts)) {
+            countElement.textContent = votes[choice] || 0;
+        }
     }
 
     updateSlide(slideId) {
@@ -291,8 +404,9 @@ class DisplayController {
 
         this.gameState.currentSlide = slideId;
 
-        // Try to load slide image
-        const imageUrl = `/slides/${slideId}.jpg`;
+        // Try to load slide image (served by the room, which checked the deck's visibility when it loaded it)
+        const sessionId = new URLSearchParams(window.location.search).get('session');
+        const imageUrl = `/session/${encodeURIComponent(sessionId)}/slides/${encodeURIComponent(slideId)}`;
 
         // Create a new image to test if it loads
         const testImage = new Image();
@@ -320,7 +434,7 @@ class DisplayController {
         testImage.src = imageUrl;
     }
 
-    startTimer(timeRemaining) {
+    startTimer(timeRemaining, phaseDuration) {
         this.clearTimer();
 
         if (timeRemaining <= 0) {
@@ -331,6 +445,7 @@ class DisplayController {
 
         this.timerStartTime = Date.now();
         this.timerDuration = timeRemaining;
+        const totalDuration = Math.max(phaseDuration || 0, timeRemaining);
 
         this.timerInterval = setInterval(() => {
             const elapsed = Date.now() - this.timerStartTime;
@@ -345,7 +460,7 @@ class DisplayController {
 
             const seconds = Math.ceil(remaining / 1000);
             this.elements.timerText.textContent = seconds.toString();
-            this.updateTimerVisual(remaining / this.timerDuration);
+            this.updateTimerVisual(remaining / totalDuration);
 
             // Change timer style based on remaining time
             if (seconds <= 5) {
@@ -360,6 +475,14 @@ class DisplayController {
         }, 100);
     }
 
+    freezeTimer(timeRemaining, phaseDuration) {
+        this.clearTimer();
+
+        const totalDuration = Math.max(phaseDuration || 0, timeRemaining);
+        this.elements.timerText.textContent = Math.ceil(timeRemaining / 1000).toString();
+        this.updateTimerVisual(totalDuration > 0 ? timeRemaining / totalDuration : 0);
+    }
+
     updateTimerVisual(progress) {
         // Update circular progress background
         const degrees = progress * 360;
@@ -408,6 +531,11 @@ class DisplayController {
                 indicatorElement.textContent = '●';
                 indicatorElement.style.color = 'var(--danger-color)';
                 break;
+            case 'closed':
+                statusElement.textContent = 'Session closed';
+                indicatorElement.textContent = '●';
+                indicatorElement.style.color = 'var(--danger-color)';
+                break;
         }
     }
 
@@ -433,6 +561,63 @@ class DisplayController {
         }
     }
 
+    showVoteResult(resolution) {
+        this.hideVoteResult();
+
+        const methodLabels = {
+            majority: 'by majority vote',
+            random: 'by random draw',
+            presenter: 'by the presenter',
+            repeatPrevious: 'repeating the last winner',
+            runoff: 'after a runoff'
+        };
+        const reasonLabels = { majority: '', tie: 'Tie', noQuorum: 'Not enough votes' };
+        const fallbackLabels = {
+            ranking: 'Nearby slides used up, next best match',
+            anyUnused: 'Nearby slides used up, random slide'
+        };
+
+        const banner = document.createElement('div');
+        banner.id = 'voteResultBanner';
+        banner.style.cssText = `
+            text-align: center;
+            padding: 12px 20px;
+            background: rgba(0, 0, 0, 0.6);
+            border-radius: 12px;
+            color: white;
+            font-size: 18px;
+            font-weight: 600;
+            animation: slideIn 0.5s ease-out;
+        `;
+
+        const reason = reasonLabels[resolution.reason];
+        banner.innerHTML = `
+            <div>${formatChoice(resolution.winner)} wins ${methodLabels[resolution.method] || ''}</div>
+            <div style="font-size: 14px; opacity: 0.8; margin-top: 4px;">
+                ${reason ? `${reason} · ` : ''}${formatTally(resolution.votes, Object.keys(resolution.votes))}${resolution.note ? ` · ${resolution.note}` : ''}${resolution.slideFallback ? ` · ${fallbackLabels[resolution.slideFallback]}` : ''}
+            </div>
+        `;
+
+        const timerContainer = this.elements.timerDisplay.parentElement;
+        if (timerContainer) {
+            timerContainer.appendChild(banner);
+        }
+
+        this.voteResultTimeout = setTimeout(() => this.hideVoteResult(), 5000);
+    }
+
+    hideVoteResult() {
+        if (this.voteResultTimeout) {
+            clearTimeout(this.voteResultTimeout);
+            this.voteResultTimeout = null;
+        }
+
+        const existingBanner = document.getElementById('voteResultBanner');
+        if (existingBanner) {
+            existingBanner.remove();
+        }
+    }
+
     showGameCompletionMessage() {
         // Remove existing completion message if present
         this.hideGameCompletionMessage();
@@ -452,7 +637,41 @@ class DisplayController {
             animation: slideIn 0.5s ease-out;
         `;
 
-        const totalVotes = (this.gameState.votes?.logical || 0) + (this.gameState.votes?.chaotic || 0);
+        const rounds = this.history ? this.history.rounds : [];
+        const totalVotes = this.history ?
+            rounds.reduce((sum, round) => sum + round.totalVotes, 0) :
+            Object.values(this.gameState.votes || {}).reduce((sum, count) => sum + (count || 0), 0);
+
+        // The path taken: each slide followed by the choice that led away from it
+        const roundsBySlide = new Map(rounds.map(round => [round.slideId, round]));
+        const path = this.history ? this.history.path.map(slideId => {
+            const round = roundsBySlide.get(slideId);
+            const step = round ? ` <span title="${getChoiceInfo(round.winner).label}">${getChoiceInfo(round.winner).emoji}→</span>` : '';
+            return `${slideId}${step}`;
+        }).join(' ') : '';
+
+        // Tournament standings
+        const standings = (this.leaderboard || []).map(entry => `
+            <div>${entry.rank === 1 ? '🏆' : `${entry.rank ?? '-'}.`} ${entry.presenter}
+                - ${entry.averageScore ?? '-'}⭐ (${entry.scores} ${entry.scores === 1 ? 'score' : 'scores'})</div>
+        `).join('');
+
+        // Audience rating (non-tournament games)
+        const rating = this.gameState.rating;
+        const ratingTags = rating ? Object.entries(rating.tags || {})
+            .filter(([, count]) => count > 0)
+            .map(([tag, count]) => {
+                const info = RATING_TAG_INFO[tag] || { emoji: '🏷️', label: tag };
+                return `${info.emoji} ${info.label} ×${count}`;
+            })
+            .join(' · ') : '';
+        const ratingSummary = rating && rating.ratings > 0 ? `
+            <div style="font-size: 16px; margin-top: 8px;">
+                Audience rating: ${rating.averageScore}⭐ (${rating.ratings} ${rating.ratings === 1 ? 'rating' : 'ratings'})
+                ${ratingTags ? `<div style="font-size: 14px; opacity: 0.9;">${ratingTags}</div>` : ''}
+            </div>
+        ` : '';
+
         completionContainer.innerHTML = `
             <div style="font-size: 24px; margin-bottom: 8px;">🎉 Game Complete! 🎉</div>
             <div style="opacity: 0.9;">
@@ -461,6 +680,9 @@ class DisplayController {
             <div style="opacity: 0.9; margin-top: 4px;">
                 Total votes: ${totalVotes}
             </div>
+            ${standings ? `<div style="font-size: 16px; margin-top: 8px;">${standings}</div>` : ''}
+            ${ratingSummary}
+            ${path ? `<div style="font-size: 14px; opacity: 0.9; margin-top: 8px;">Path: ${path}</div>` : ''}
         `;
 
         // Insert where the timer was
@@ -470,6 +692,35 @@ class DisplayController {
         }
     }
 
+    showHistory(history) {
+        if (!history) return;
+
+        this.history = history;
+        if (this.gameState.phase === 'finished') {
+            this.showGameCompletionMessage();
+        }
+    }
+
+    showLeaderboard(leaderboard) {
+        if (!leaderboard) return;
+
+        this.leaderboard = leaderboard;
+        if (this.gameState.phase === 'finished') {
+            this.showGameCompletionMessage();
+        }
+    }
+
+    showRating(rating) {
+        if (!rating) return;
+
+        this.gameState.rating = rating;
+        if (this.gameState.phase === 'rating') {
+            this.updatePhase('rating');
+        } else if (this.gameState.phase === 'finished') {
+            this.showGameCompletionMessage();
+        }
+    }
+
     hideGameCompletionMessage() {
         const existingMessage = document.getElementById('gameCompletionMessage');
         if (existingMessage) {
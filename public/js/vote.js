@@ -1,5 +1,8 @@
 // Battle Decks - Voting Interface JavaScript
 
+// Close code the server uses once a finished or abandoned session has been cleaned up
+const SESSION_CLOSED_CODE = 4000;
+
 class VoteController {
     constructor() {
         // WebSocket connection
@@ -9,9 +12,13 @@ class VoteController {
         this.retryDelay = 1000;
 
         // User and session state
-        this.userId = 'user_' + Math.random().toString(36).substring(2, 11);
+        this.userId = null; // Issued by the server on join, along with a signed voterToken
+        this.voterToken = null;
         this.currentSession = null;
         this.hasVoted = false;
+        this.scoredPresenter = null; // Tournament presenter this user already scored
+        this.hasRated = false;
+        this.selectedTags = new Set();
 
         // Game state
         this.gameState = {
@@ -19,12 +26,22 @@ class VoteController {
             currentSlide: null,
             phase: 'waiting',
             votes: { logical: 0, chaotic: 0 },
+            choices: DEFAULT_VOTE_CHOICES,
             timeRemaining: 0,
             slideCount: 1,
             maxSlides: 10,
-            votingOpen: false
+            votingOpen: false,
+            paused: false
         };
 
+        // Presentation countdown
+        this.presentTimerInterval = null;
+
+        // Vote buttons and live counts, keyed by choice
+        this.renderedChoices = '';
+        this.choiceButtons = {};
+        this.choiceCounts = {};
+
         // DOM elements
         this.elements = {
             connectionStatus: document.getElementById('connectionStatus'),
@@ -40,12 +57,15 @@ class VoteController {
             votingInterface: document.getElementById('votingInterface'),
             waitingMessage: document.getElementById('waitingMessage'),
             presentingMessage: document.getElementById('presentingMessage'),
-            logicalBtn: document.getElementById('logicalBtn'),
-            chaoticBtn: document.getElementById('chaoticBtn'),
+            voteButtons: document.getElementById('voteButtons'),
             voteStatus: document.getElementById('voteStatus'),
-            liveLogicalCount: document.getElementById('liveLogicalCount'),
-            liveChaoticCount: document.getElementById('liveChaoticCount'),
-            presentTimeRemaining: document.getElementById('presentTimeRemaining')
+            voteCounts: document.getElementById('voteCounts'),
+            presentTimeRemaining: document.getElementById('presentTimeRemaining'),
+            scoringInterface: document.getElementById('scoringInterface'),
+            scoringPresenter: document.getElementById('scoringPresenter'),
+            scoreButtons: document.getElementById('scoreButtons'),
+            ratingTags: document.getElementById('ratingTags'),
+            scoreStatus: document.getElementById('scoreStatus')
         };
 
         this.init();
@@ -53,6 +73,8 @@ class VoteController {
 
     init() {
         this.setupEventListeners();
+        this.renderChoices();
+        this.renderRatingTags();
         this.updateConnectionStatus('disconnected');
         this.log('Vote interface initialized');
 
@@ -79,9 +101,20 @@ class VoteController {
             e.target.value = e.target.value.toUpperCase();
         });
 
-        // Voting buttons
-        this.elements.logicalBtn.addEventListener('click', () => this.vote('logical'));
-        this.elements.chaoticBtn.addEventListener('click', () => this.vote('chaotic'));
+        // Scoring buttons (tournament turns and the end-of-game rating)
+        this.elements.scoreButtons.addEventListener('click', (e) => {
+            const button = e.target.closest('button[data-score]');
+            if (button) {
+                this.submitScore(parseInt(button.dataset.score));
+            }
+        });
+
+        this.elements.ratingTags.addEventListener('click', (e) => {
+            const button = e.target.closest('button[data-tag]');
+            if (button) {
+                this.toggleRatingTag(button);
+            }
+        });
 
         // Handle page visibility changes
         document.addEventListener('visibilitychange', () => {
@@ -122,7 +155,18 @@ class VoteController {
             }
 
             const sessionData = await response.json();
-            this.log(`Joined session: ${roomCode}`);
+
+            // Get a signed voter identity (reuses the existing one when rejoining)
+            const joinResponse = await fetch(`/session/${roomCode}/join`, { method: 'POST' });
+            const joinResult = await joinResponse.json();
+            if (!joinResult.success) {
+                this.showJoinStatus(joinResult.error || 'Could not join the session. Please try again.', 'error');
+                return;
+            }
+
+            this.userId = joinResult.userId;
+            this.voterToken = joinResult.token;
+            this.log(`Joined session: ${roomCode} as ${this.userId}`);
 
             this.currentSession = roomCode;
             this.gameState = { ...this.gameState, ...sessionData };
@@ -149,6 +193,14 @@ class VoteController {
         }
     }
 
+    // Votes, scores and ratings are attributed to the signed token from /join
+    getVoterHeaders() {
+        return {
+            'Content-Type': 'application/json',
+            'X-Voter-Token': this.voterToken
+        };
+    }
+
     connectWebSocket() {
         if (!this.currentSession) return;
 
@@ -173,7 +225,7 @@ class VoteController {
                 // Send join message
                 this.sendMessage({
                     type: 'join',
-                    userId: this.userId
+                    token: this.voterToken
                 });
             };
 
@@ -189,7 +241,9 @@ class VoteController {
             this.ws.onclose = (event) => {
                 this.log(`WebSocket closed: ${event.code} - ${event.reason}`);
                 this.updateConnectionStatus('disconnected');
-                if (this.currentSession) {
+                if (event.code === SESSION_CLOSED_CODE) {
+                    this.leaveClosedSession(event.reason);
+                } else if (this.currentSession) {
                     this.scheduleReconnect();
                 }
             };
@@ -238,11 +292,29 @@ class VoteController {
             case 'voteUpdate':
                 this.updateVotes(message.data.votes);
                 break;
+            case 'voteResult':
+                this.showVoteResult(message.data);
+                break;
+            case 'timerUpdate':
+                this.log(`Timer ${message.data.action}: ${Math.ceil(message.data.timeRemaining / 1000)}s remaining`);
+                this.gameState.paused = message.data.paused;
+                this.updatePhase(message.data.phase, message.data.timeRemaining);
+                this.updateVotingInterface();
+                break;
             case 'slideChange':
                 this.updateSlide(message.data.slideId);
                 this.hasVoted = false; // Reset vote status for new slide
                 this.updateVotingInterface();
                 break;
+            case 'history':
+                // The round-by-round recap is shown on the display
+                break;
+            case 'ratingUpdate':
+                // Aggregated ratings are shown on the display
+                break;
+            case 'leaderboard':
+                this.showLeaderboard(message.data.leaderboard);
+                break;
             case 'pong':
                 // Heartbeat response
                 break;
@@ -258,6 +330,22 @@ class VoteController {
     updateGameState(state) {
         if (!state) return;
 
+        // A runoff reopens voting for the same slide, so everyone gets a fresh ballot
+        if (state.runoff && !this.gameState.runoff) {
+            this.hasVoted = false;
+            this.showVoteStatus('It\'s a runoff! Vote again.', 'info');
+        }
+
+        // The host reset the room for another game; keep the connection, drop the old ballot
+        if (state.phase === 'waiting' && this.gameState.phase !== 'waiting') {
+            this.hasVoted = false;
+            this.scoredPresenter = null;
+            this.hasRated = false;
+            this.selectedTags.clear();
+            this.renderRatingTags();
+            this.elements.voteStatus.classList.add('hidden');
+        }
+
         this.gameState = { ...this.gameState, ...state };
 
         // Update session info
@@ -273,6 +361,9 @@ class VoteController {
             this.elements.maxSlidesDisplay.textContent = state.maxSlides;
         }
 
+        // Rebuild the buttons if the session (or a runoff) changed the choices on offer
+        this.renderChoices();
+
         // Update phase
         if (state.phase) {
             this.updatePhase(state.phase, state.timeRemaining);
@@ -297,13 +388,34 @@ class VoteController {
             waiting: 'Waiting for game to start...',
             presenting: `Presentation in progress (${Math.ceil((timeRemaining || 0) / 1000)}s remaining)`,
             voting: 'Vote now for the next slide!',
+            scoring: `Score ${this.gameState.currentPresenter || 'the presenter'}!`,
+            rating: 'Rate the presentation!',
             finished: 'Game finished! Thank you for participating.'
         };
 
-        this.elements.phaseDisplay.textContent = phaseMessages[phase] || phase;
+        const isTimedPhase = phase === 'presenting' || phase === 'voting' || phase === 'scoring' || phase === 'rating';
+        let message = phaseMessages[phase] || phase;
+        if (this.gameState.paused && isTimedPhase) {
+            message = '⏸ Paused by the presenter';
+        } else if (phase === 'voting' && this.gameState.awaitingDecision) {
+            message = 'The presenter is picking the next slide...';
+        } else if (phase === 'voting' && this.gameState.runoff) {
+            message = 'Runoff! Vote again for the next slide!';
+        }
+        this.elements.phaseDisplay.textContent = message;
+        if (this.gameState.currentPresenter && phase !== 'waiting' && phase !== 'finished') {
+            this.elements.phaseDisplay.textContent = `🎤 ${this.gameState.currentPresenter} · ${message}`;
+        }
 
         // Show/hide appropriate interface sections
-        if (phase === 'voting' && this.gameState.votingOpen) {
+        const isScoringPhase = phase === 'scoring' || phase === 'rating';
+        this.elements.scoringInterface.classList.toggle('hidden', !isScoringPhase);
+        if (isScoringPhase) {
+            this.elements.votingInterface.classList.add('hidden');
+            this.elements.waitingMessage.classList.add('hidden');
+            this.elements.presentingMessage.classList.add('hidden');
+            this.updateScoringInterface();
+        } else if (phase === 'voting' && this.gameState.votingOpen) {
             this.elements.votingInterface.classList.remove('hidden');
             this.elements.waitingMessage.classList.add('hidden');
             this.elements.presentingMessage.classList.add('hidden');
@@ -313,9 +425,7 @@ class VoteController {
             this.elements.presentingMessage.classList.remove('hidden');
 
             // Update present time remaining
-            if (timeRemaining) {
-                this.updatePresentingTimer(timeRemaining);
-            }
+            this.updatePresentingTimer(timeRemaining || 0);
         } else {
             this.elements.votingInterface.classList.add('hidden');
             this.elements.waitingMessage.classList.remove('hidden');
@@ -324,27 +434,78 @@ class VoteController {
     }
 
     updatePresentingTimer(timeRemaining) {
+        if (this.presentTimerInterval) {
+            clearInterval(this.presentTimerInterval);
+            this.presentTimerInterval = null;
+        }
+
         const seconds = Math.ceil(timeRemaining / 1000);
         this.elements.presentTimeRemaining.textContent = seconds;
 
+        // Keep the countdown frozen while the presenter has paused the game
+        if (this.gameState.paused || timeRemaining <= 0) {
+            return;
+        }
+
         // Update timer every second
-        const timerInterval = setInterval(() => {
-            const newSeconds = Math.ceil((timeRemaining - (Date.now() % 1000)) / 1000);
+        const timerEnd = Date.now() + timeRemaining;
+        this.presentTimerInterval = setInterval(() => {
+            const newSeconds = Math.ceil((timerEnd - Date.now()) / 1000);
             if (newSeconds > 0) {
                 this.elements.presentTimeRemaining.textContent = newSeconds;
             } else {
-                clearInterval(timerInterval);
+                clearInterval(this.presentTimerInterval);
+                this.presentTimerInterval = null;
                 this.elements.presentTimeRemaining.textContent = '0';
             }
         }, 1000);
     }
 
+    renderChoices() {
+        const choices = getOpenChoices(this.gameState);
+        const key = choices.join(',');
+        if (key === this.renderedChoices) return;
+        this.renderedChoices = key;
+
+        this.elements.voteButtons.innerHTML = '';
+        this.elements.voteCounts.innerHTML = '';
+        this.choiceButtons = {};
+        this.choiceCounts = {};
+
+        for (const choice of choices) {
+            const info = getChoiceInfo(choice);
+
+            const button = document.createElement('button');
+            button.className = `vote-btn vote-btn-${choice}`;
+            button.title = info.description;
+            button.innerHTML = `<div style="font-size: 24px; margin-bottom: 8px;">${info.emoji}</div><div>${info.label}</div>`;
+            button.addEventListener('click', () => this.vote(choice));
+            this.elements.voteButtons.appendChild(button);
+            this.choiceButtons[choice] = button;
+
+            const countItem = document.createElement('div');
+            countItem.className = 'vote-count-item';
+            countItem.innerHTML = `<div class="vote-count-number">0</div><div class="vote-count-label">${info.emoji} ${info.label}</div>`;
+            this.elements.voteCounts.appendChild(countItem);
+            this.choiceCounts[choice] = countItem.querySelector('.vote-count-number');
+        }
+
+        this.updateVotes(this.gameState.votes);
+    }
+
+    setVoteButtonsDisabled(disabled) {
+        for (const button of Object.values(this.choiceButtons)) {
+            button.disabled = disabled;
+        }
+    }
+
     updateVotes(votes) {
         if (!votes) return;
 
         this.gameState.votes = votes;
-        this.elements.liveLogicalCount.textContent = votes.logical || 0;
-        this.elements.liveChaoticCount.textContent = votes.chaotic || 0;
+        for (const [choice, countElement] of Object.entries(this.choiceCounts)) {
+            countElement.textContent = votes[choice] || 0;
+        }
     }
 
     updateSlide(slideId) {
@@ -358,8 +519,7 @@ class VoteController {
                        this.gameState.votingOpen &&
                        !this.hasVoted;
 
-        this.elements.logicalBtn.disabled = !canVote;
-        this.elements.chaoticBtn.disabled = !canVote;
+        this.setVoteButtonsDisabled(!canVote);
 
         if (this.hasVoted) {
             this.showVoteStatus('Vote recorded! Thank you.', 'success');
@@ -379,22 +539,18 @@ class VoteController {
         }
 
         // Disable buttons immediately
-        this.elements.logicalBtn.disabled = true;
-        this.elements.chaoticBtn.disabled = true;
+        this.setVoteButtonsDisabled(true);
 
         // Show loading state
-        const chosenBtn = choice === 'logical' ? this.elements.logicalBtn : this.elements.chaoticBtn;
+        const chosenBtn = this.choiceButtons[choice];
         const originalText = chosenBtn.innerHTML;
         chosenBtn.innerHTML = '<div style="font-size: 18px;">⏳</div><div>Voting...</div>';
 
         try {
             const response = await fetch(`/session/${this.currentSession}/vote`, {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
+                headers: this.getVoterHeaders(),
                 body: JSON.stringify({
-                    userId: this.userId,
                     choice: choice
                 })
             });
@@ -403,7 +559,7 @@ class VoteController {
 
             if (result.success) {
                 this.hasVoted = true;
-                this.showVoteStatus(`✅ Vote cast for ${choice}!`, 'success');
+                this.showVoteStatus(`✅ Vote cast for ${getChoiceInfo(choice).label}!`, 'success');
                 this.log(`Vote submitted: ${choice}`);
 
                 // Update vote counts if provided
@@ -425,6 +581,122 @@ class VoteController {
         }
     }
 
+    renderRatingTags() {
+        this.elements.ratingTags.innerHTML = Object.entries(RATING_TAG_INFO)
+            .map(([tag, info]) => `<button class="rating-tag" data-tag="${tag}">${info.emoji} ${info.label}</button>`)
+            .join('');
+    }
+
+    toggleRatingTag(button) {
+        const tag = button.dataset.tag;
+        if (this.selectedTags.has(tag)) {
+            this.selectedTags.delete(tag);
+        } else {
+            this.selectedTags.add(tag);
+        }
+        button.classList.toggle('selected', this.selectedTags.has(tag));
+    }
+
+    updateScoringInterface() {
+        const rating = this.gameState.phase === 'rating';
+        const presenter = this.gameState.currentPresenter;
+        const alreadyScored = rating ? this.hasRated : this.scoredPresenter === presenter;
+        const canScore = (rating || (this.gameState.phase === 'scoring' && !!presenter)) && !alreadyScored;
+
+        this.elements.scoringPresenter.textContent = presenter || 'the presenter';
+        this.elements.ratingTags.classList.toggle('hidden', !rating || alreadyScored);
+        this.elements.scoreButtons.querySelectorAll('button').forEach(button => {
+            button.disabled = !canScore;
+        });
+
+        if (alreadyScored) {
+            this.showScoreStatus('Score recorded! Thank you.', 'success');
+        } else {
+            this.elements.scoreStatus.classList.add('hidden');
+        }
+    }
+
+    async submitScore(score) {
+        const rating = this.gameState.phase === 'rating';
+        if (!this.currentSession || (!rating && this.gameState.phase !== 'scoring')) {
+            return;
+        }
+
+        const presenter = this.gameState.currentPresenter;
+        this.elements.scoreButtons.querySelectorAll('button').forEach(button => {
+            button.disabled = true;
+        });
+
+        // Tournament turns are scored per presenter; the end-of-game rating can carry tags
+        const body = { score: score };
+        if (rating) {
+            body.tags = Array.from(this.selectedTags);
+        }
+
+        try {
+            const response = await fetch(`/session/${this.currentSession}/${rating ? 'rate' : 'score'}`, {
+                method: 'POST',
+                headers: this.getVoterHeaders(),
+                body: JSON.stringify(body)
+            });
+
+            const result = await response.json();
+
+            if (result.success) {
+                if (rating) {
+                    this.hasRated = true;
+                } else {
+                    this.scoredPresenter = presenter;
+                }
+                this.log(`Score submitted for ${presenter || 'the presentation'}: ${score}`);
+                this.updateScoringInterface();
+            } else {
+                this.updateScoringInterface(); // Re-enable buttons if scoring failed
+                this.showScoreStatus(`❌ ${result.error}`, 'error');
+            }
+
+        } catch (error) {
+            this.log(`Score error: ${error.message}`, 'error');
+            this.updateScoringInterface();
+            this.showScoreStatus('❌ Connection error. Please try again.', 'error');
+        }
+    }
+
+    showScoreStatus(message, type = 'info') {
+        this.elements.scoreStatus.className = `vote-status ${type}`;
+        this.elements.scoreStatus.textContent = message;
+        this.elements.scoreStatus.classList.remove('hidden');
+    }
+
+    showLeaderboard(leaderboard) {
+        const leader = (leaderboard || []).find(entry => entry.rank === 1);
+        if (!leader) return;
+
+        this.log(`Leaderboard: ${leaderboard.map(entry => `${entry.presenter} ${entry.averageScore ?? '-'}`).join(', ')}`);
+        if (this.gameState.phase === 'finished') {
+            this.elements.phaseDisplay.textContent = `🏆 ${leader.presenter} wins with ${leader.averageScore}⭐ average!`;
+        }
+    }
+
+    showVoteResult(resolution) {
+        const winner = formatChoice(resolution.winner);
+        const methods = {
+            random: 'at random',
+            presenter: 'by the presenter',
+            repeatPrevious: 'by repeating the last winner',
+            runoff: 'by a runoff'
+        };
+
+        let detail = '';
+        if (resolution.reason !== 'majority') {
+            const reason = resolution.reason === 'tie' ? 'tie' : 'not enough votes';
+            detail = ` (${reason}, decided ${methods[resolution.method] || resolution.method})`;
+        }
+
+        this.log(`Round ${resolution.round} result: ${resolution.winner} via ${resolution.method}`);
+        this.showVoteStatus(`${winner} wins${detail}`, 'info');
+    }
+
     sendMessage(message) {
         if (this.ws && this.ws.readyState === WebSocket.OPEN) {
             this.ws.send(JSON.stringify(message));
@@ -459,6 +731,15 @@ class VoteController {
         }
     }
 
+    // The session no longer exists: go back to the join screen instead of reconnecting
+    leaveClosedSession(reason) {
+        this.currentSession = null;
+        this.ws = null;
+        this.elements.votingPanel.classList.add('hidden');
+        this.elements.joinPanel.classList.remove('hidden');
+        this.showJoinStatus(`${reason || 'Session closed'}. Enter a new room code to join another game.`, 'info');
+    }
+
     updateConnectionStatus(status) {
         const statusElement = this.elements.connectionStatus;
 
@@ -8,27 +8,50 @@
  * Usage:
  *   npm run process-deck -- --deck-name "My Deck" --slides-dir ./slides
  *   npm run process-deck -- --deck-name "Tech Talk" --slides-dir ./slides --description "Conference slides"
+ *   npm run process-deck -- --deck-name "Keynote" --pdf ./keynote.pdf --dpi 200
  *
  * Requirements:
  * - wrangler must be installed and configured
+ * - An organization API key, via --api-key or the BATTLE_DECKS_API_KEY environment variable
  * - Slides must be named sequentially (slide_1.jpg, slide_2.png, etc.)
- * - Supported formats: .jpg, .jpeg, .png
+ * - Supported formats: .jpg, .jpeg, .png, .webp
+ * - For --pdf: poppler's pdftoppm and pdftotext on the PATH (poppler-utils / brew install poppler)
  */
 
+import { execFileSync } from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
+const DEFAULT_PDF_DPI = 150;
+const MAX_PROGRESS_RECONNECTS = 5;
+const PROGRESS_RECONNECT_DELAY = 3000; // ms
+const MAX_SLIDE_TITLE_LENGTH = 200;
+
+// Sent with each upload, since the worker stores whatever type the image arrives with
+const SLIDE_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
 interface ProcessOptions {
   deckName: string;
   slidesDir: string;
+  pdf?: string;
+  dpi: number;
   description?: string;
   workerUrl?: string;
+  apiKey?: string;
+  visibility?: string;
 }
 
 interface ApiResponse {
   success: boolean;
   error?: string;
   deckId?: string;
+  shareUrl?: string;
 }
 
 interface ProcessingStatus {
@@ -38,6 +61,34 @@ interface ProcessingStatus {
   status: string;
   currentStep?: string;
   error?: string;
+  flaggedSlides?: Array<{ slideId: string; categories: string[]; action: string }>;
+}
+
+interface SlideFile {
+  name: string;
+  path: string;
+  title?: string;
+}
+
+interface SlideProgress {
+  slideId: string;
+  step: string;
+  error?: string;
+}
+
+// Carried across reconnects to the progress stream
+interface StreamState {
+  lastStep: string | undefined;
+  received: boolean; // Whether the current connection delivered any event
+}
+
+// A progress stream error that reconnecting won't fix (bad key, unknown deck)
+class FatalStreamError extends Error {}
+
+// Payload of the snapshot, progress and done events
+interface ProgressEvent extends ProcessingStatus {
+  slide?: SlideProgress;
+  slides?: SlideProgress[];
 }
 
 /**
@@ -46,17 +97,33 @@ interface ProcessingStatus {
 async function main() {
   const args = parseArguments();
 
-  if (!args.deckName || !args.slidesDir) {
+  if (!args.deckName || (!args.slidesDir && !args.pdf)) {
     console.error('❌ Missing required arguments');
     printUsage();
     process.exit(1);
   }
 
-  // Validate slides directory
-  if (!fs.existsSync(args.slidesDir)) {
+  // Validate slides source
+  if (args.pdf && !fs.existsSync(args.pdf)) {
+    console.error(`❌ PDF not found: ${args.pdf}`);
+    process.exit(1);
+  }
+  if (!args.pdf && !fs.existsSync(args.slidesDir)) {
     console.error(`❌ Slides directory not found: ${args.slidesDir}`);
     process.exit(1);
   }
+  if (!Number.isInteger(args.dpi) || args.dpi < 36 || args.dpi > 600) {
+    console.error('❌ --dpi must be a whole number between 36 and 600');
+    process.exit(1);
+  }
+
+  // Deck routes are scoped to the organization that owns the API key
+  const apiKey = args.apiKey || process.env.BATTLE_DECKS_API_KEY;
+  if (!apiKey) {
+    console.error('❌ Missing API key: pass --api-key or set BATTLE_DECKS_API_KEY');
+    printUsage();
+    process.exit(1);
+  }
 
   // Determine worker URL
   const workerUrl = args.workerUrl || getWorkerUrl();
@@ -65,33 +132,51 @@ async function main() {
   try {
     // Step 1: Create deck
     console.log(`\n📦 Creating deck: ${args.deckName}`);
-    const deckId = await createDeck(workerUrl, args.deckName, args.description);
+    const { deckId, shareUrl } = await createDeck(workerUrl, apiKey, args.deckName, args.description, args.visibility);
     console.log(`✅ Deck created with ID: ${deckId}`);
 
-    // Step 2: Upload slides
-    console.log(`\n📤 Uploading slides from: ${args.slidesDir}`);
-    const slideFiles = getSlideFiles(args.slidesDir);
-    console.log(`Found ${slideFiles.length} slide files`);
-
-    for (let i = 0; i < slideFiles.length; i++) {
-      const file = slideFiles[i];
-      const slideId = `slide_${i + 1}`;
-      console.log(`  [${i + 1}/${slideFiles.length}] Uploading ${file.name} as ${slideId}...`);
-      await uploadSlide(workerUrl, deckId, slideId, file.path);
+    // Step 2: Upload slides (a PDF is rasterized into a temporary directory first)
+    let pdfDir: string | undefined;
+    try {
+      let slideFiles: SlideFile[];
+      if (args.pdf) {
+        console.log(`\n🖨️  Rasterizing ${args.pdf} at ${args.dpi} DPI...`);
+        pdfDir = fs.mkdtempSync(path.join(os.tmpdir(), 'battle-decks-pdf-'));
+        slideFiles = getPdfSlides(args.pdf, args.dpi, pdfDir);
+        console.log(`Rendered ${slideFiles.length} pages`);
+      } else {
+        console.log(`\n📤 Uploading slides from: ${args.slidesDir}`);
+        slideFiles = getSlideFiles(args.slidesDir);
+        console.log(`Found ${slideFiles.length} slide files`);
+      }
+
+      for (let i = 0; i < slideFiles.length; i++) {
+        const file = slideFiles[i];
+        const slideId = `slide_${i + 1}`;
+        console.log(`  [${i + 1}/${slideFiles.length}] Uploading ${file.name} as ${slideId}` + (file.title ? ` ("${file.title}")` : '') + '...');
+        await uploadSlide(workerUrl, apiKey, deckId, slideId, file.path, file.title);
+      }
+
+      console.log(`✅ Uploaded ${slideFiles.length} slides`);
+    } finally {
+      if (pdfDir) {
+        fs.rmSync(pdfDir, { recursive: true, force: true });
+      }
     }
 
-    console.log(`✅ Uploaded ${slideFiles.length} slides`);
-
     // Step 3: Trigger AI processing
     console.log(`\n🤖 Triggering AI processing for deck ${deckId}...`);
-    await processDeck(workerUrl, deckId);
+    await processDeck(workerUrl, apiKey, deckId);
 
-    // Step 4: Monitor processing status
-    console.log(`\n⏳ Monitoring processing status...`);
-    await monitorProcessing(workerUrl, deckId);
+    // Step 4: Follow processing progress
+    console.log(`\n⏳ Following processing progress...`);
+    await monitorProcessing(workerUrl, apiKey, deckId);
 
     console.log(`\n🎉 Deck processing complete!`);
     console.log(`\n📝 Deck ID: ${deckId}`);
+    if (shareUrl) {
+      console.log(`🔗 Share link: ${shareUrl}`);
+    }
     console.log(`🎮 You can now start a game with this deck in the admin interface`);
   } catch (error) {
     console.error(`\n❌ Error: ${error.message}`);
@@ -107,6 +192,7 @@ function parseArguments(): ProcessOptions {
   const options: ProcessOptions = {
     deckName: '',
     slidesDir: '',
+    dpi: DEFAULT_PDF_DPI,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -118,12 +204,24 @@ function parseArguments(): ProcessOptions {
     } else if (arg === '--slides-dir' && args[i + 1]) {
       options.slidesDir = args[i + 1];
       i++;
+    } else if (arg === '--pdf' && args[i + 1]) {
+      options.pdf = args[i + 1];
+      i++;
+    } else if (arg === '--dpi' && args[i + 1]) {
+      options.dpi = Number(args[i + 1]);
+      i++;
     } else if (arg === '--description' && args[i + 1]) {
       options.description = args[i + 1];
       i++;
     } else if (arg === '--worker-url' && args[i + 1]) {
       options.workerUrl = args[i + 1];
       i++;
+    } else if (arg === '--api-key' && args[i + 1]) {
+      options.apiKey = args[i + 1];
+      i++;
+    } else if (arg === '--visibility' && args[i + 1]) {
+      options.visibility = args[i + 1];
+      i++;
     }
   }
 
@@ -145,16 +243,20 @@ function getWorkerUrl(): string {
 }
 
 /**
- * Get list of slide files from directory
+ * Authorization header for the deck API
  */
-function getSlideFiles(dir: string): Array<{ name: string; path: string }> {
+function authHeaders(apiKey: string): Record<string, string> {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+/**
+ * Get list of slide files from directory, in number order (slide_2 before slide_10)
+ */
+function getSlideFiles(dir: string): SlideFile[] {
   const files = fs.readdirSync(dir);
   const slideFiles = files
-    .filter(file => {
-      const ext = path.extname(file).toLowerCase();
-      return ['.jpg', '.jpeg', '.png'].includes(ext);
-    })
-    .sort()
+    .filter(file => path.extname(file).toLowerCase() in SLIDE_CONTENT_TYPES)
+    .sort(new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' }).compare)
     .map(file => ({
       name: file,
       path: path.join(dir, file),
@@ -163,20 +265,68 @@ function getSlideFiles(dir: string): Array<{ name: string; path: string }> {
   return slideFiles;
 }
 
+/**
+ * Rasterize every page of a PDF into outputDir as PNG, titled with the page's first line of text
+ */
+function getPdfSlides(pdfPath: string, dpi: number, outputDir: string): SlideFile[] {
+  // pdftoppm names pages page-1.png, or page-01.png etc. (zero-padded) for longer documents
+  runPoppler('pdftoppm', ['-r', String(dpi), '-png', pdfPath, path.join(outputDir, 'page')]);
+
+  return fs.readdirSync(outputDir)
+    .map(file => ({ file, page: Number(/^page-(\d+)\.png$/.exec(file)?.[1]) }))
+    .filter(({ page }) => Number.isInteger(page))
+    .sort((a, b) => a.page - b.page)
+    .map(({ file, page }) => ({
+      name: `page ${page}`,
+      path: path.join(outputDir, file),
+      title: getPdfPageTitle(pdfPath, page),
+    }));
+}
+
+/**
+ * First non-empty line of a PDF page's text, if it has any
+ */
+function getPdfPageTitle(pdfPath: string, page: number): string | undefined {
+  const text = runPoppler('pdftotext', ['-f', String(page), '-l', String(page), '-enc', 'UTF-8', pdfPath, '-']);
+  const firstLine = text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .find(line => line.length > 0);
+
+  return firstLine ? firstLine.slice(0, MAX_SLIDE_TITLE_LENGTH) : undefined;
+}
+
+/**
+ * Run a poppler command-line tool and return its output
+ */
+function runPoppler(command: string, args: string[]): string {
+  try {
+    return execFileSync(command, args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`${command} not found - install poppler (poppler-utils) to use --pdf`);
+    }
+    throw new Error(`${command} failed: ${error.stderr?.toString().trim() || error.message}`);
+  }
+}
+
 /**
  * Create a new deck
  */
 async function createDeck(
   workerUrl: string,
+  apiKey: string,
   name: string,
-  description?: string
-): Promise<string> {
+  description?: string,
+  visibility?: string
+): Promise<{ deckId: string; shareUrl?: string }> {
   const response = await fetch(`${workerUrl}/api/decks/create`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(apiKey),
     },
-    body: JSON.stringify({ name, description }),
+    body: JSON.stringify({ name, description, visibility }),
   });
 
   if (!response.ok) {
@@ -189,7 +339,7 @@ async function createDeck(
     throw new Error(data.error || 'Failed to create deck');
   }
 
-  return data.deckId;
+  return { deckId: data.deckId, shareUrl: data.shareUrl };
 }
 
 /**
@@ -197,18 +347,24 @@ async function createDeck(
  */
 async function uploadSlide(
   workerUrl: string,
+  apiKey: string,
   deckId: string,
   slideId: string,
-  filePath: string
+  filePath: string,
+  title?: string
 ): Promise<void> {
   const fileBuffer = fs.readFileSync(filePath);
-  const blob = new Blob([fileBuffer]);
+  const blob = new Blob([fileBuffer], { type: SLIDE_CONTENT_TYPES[path.extname(filePath).toLowerCase()] });
   const formData = new FormData();
   formData.append('slideId', slideId);
   formData.append('image', blob, path.basename(filePath));
+  if (title) {
+    formData.append('title', title);
+  }
 
   const response = await fetch(`${workerUrl}/api/decks/${deckId}/upload-slide`, {
     method: 'POST',
+    headers: authHeaders(apiKey),
     body: formData,
   });
 
@@ -226,11 +382,12 @@ async function uploadSlide(
 /**
  * Trigger deck processing
  */
-async function processDeck(workerUrl: string, deckId: string): Promise<void> {
+async function processDeck(workerUrl: string, apiKey: string, deckId: string): Promise<void> {
   const response = await fetch(`${workerUrl}/api/decks/${deckId}/process`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(apiKey),
     },
   });
 
@@ -246,42 +403,133 @@ async function processDeck(workerUrl: string, deckId: string): Promise<void> {
 }
 
 /**
- * Monitor processing status with polling
+ * Follow processing progress over the Server-Sent Events stream
  */
-async function monitorProcessing(workerUrl: string, deckId: string): Promise<void> {
-  const maxRetries = 60; // 5 minutes with 5-second intervals
-  let retries = 0;
-
-  while (retries < maxRetries) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
+async function monitorProcessing(workerUrl: string, apiKey: string, deckId: string): Promise<void> {
+  // The job resumes if its Durable Object restarts (e.g. on a deploy), which drops the stream;
+  // reconnecting gets a fresh snapshot, so only give up after several attempts that receive nothing
+  const state: StreamState = { lastStep: undefined, received: false };
+  let failedAttempts = 0;
+
+  while (true) {
+    state.received = false;
+    let result: ProgressEvent | null = null;
+    try {
+      result = await followProgressStream(workerUrl, apiKey, deckId, state);
+    } catch (error) {
+      if (error instanceof FatalStreamError) throw error;
+      console.log(`  ⚠️  Progress stream error: ${error.message}`);
+    }
 
-    const response = await fetch(`${workerUrl}/api/decks/${deckId}/status`, {
-      method: 'GET',
-    });
+    if (result) {
+      return reportResult(result);
+    }
 
-    if (!response.ok) {
-      throw new Error(`Failed to get status: ${response.statusText}`);
+    failedAttempts = state.received ? 1 : failedAttempts + 1;
+    if (failedAttempts > MAX_PROGRESS_RECONNECTS) {
+      throw new Error('Lost the progress stream before processing finished - check worker logs for details');
     }
 
-    const status: ProcessingStatus = await response.json();
+    console.log(`  🔌 Progress stream closed early, reconnecting (${failedAttempts}/${MAX_PROGRESS_RECONNECTS})...`);
+    await new Promise(resolve => setTimeout(resolve, PROGRESS_RECONNECT_DELAY));
+  }
+}
 
-    console.log(
-      `  Status: ${status.status} | Processed: ${status.processedSlides}/${status.totalSlides}`
-    );
+/**
+ * Read one connection to the progress stream, printing events as they arrive
+ * Returns the final event on done, or null if the stream closed before it
+ */
+async function followProgressStream(
+  workerUrl: string,
+  apiKey: string,
+  deckId: string,
+  state: StreamState
+): Promise<ProgressEvent | null> {
+  // fetch rather than EventSource, which cannot send the Authorization header
+  const response = await fetch(`${workerUrl}/api/decks/${deckId}/progress`, {
+    method: 'GET',
+    headers: {
+      Accept: 'text/event-stream',
+      ...authHeaders(apiKey),
+    },
+  });
 
-    if (status.status === 'ready') {
-      console.log('✅ Processing complete!');
-      return;
+  // Server errors may be the restart itself; anything else won't fix itself on retry
+  if (response.status >= 500) {
+    throw new Error(response.statusText);
+  }
+  if (!response.ok || !response.body) {
+    throw new FatalStreamError(`Failed to follow progress: ${response.statusText}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return null;
+
+    // Events are separated by a blank line
+    buffer += value;
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const { event, data } = parseServerSentEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (!data) continue;
+
+      const progress: ProgressEvent = JSON.parse(data);
+      state.received = true;
+
+      if (progress.slide) {
+        const slide = progress.slide;
+        console.log(`  ${slide.slideId}: ${slide.step}` + (slide.error ? ` - ${slide.error}` : ''));
+      } else if (progress.currentStep && progress.currentStep !== state.lastStep) {
+        console.log(`  Processed: ${progress.processedSlides}/${progress.totalSlides} | ${progress.currentStep}`);
+      }
+      state.lastStep = progress.currentStep;
+
+      if (event === 'done') {
+        await reader.cancel();
+        return progress;
+      }
     }
+  }
+}
 
-    if (status.status === 'failed') {
-      throw new Error(`Processing failed: ${status.error || 'Unknown error'}`);
+/**
+ * Split one Server-Sent Event into its event name and data
+ */
+function parseServerSentEvent(chunk: string): { event: string; data: string } {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of chunk.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
     }
+  }
+
+  return { event, data: data.join('\n') };
+}
 
-    retries++;
+/**
+ * Print the outcome of a finished run
+ */
+function reportResult(status: ProgressEvent): void {
+  if (status.status === 'failed') {
+    const failedSlides = (status.slides || []).filter(slide => slide.step === 'failed');
+    for (const slide of failedSlides) {
+      console.log(`  ❌ ${slide.slideId}: ${slide.error || 'Unknown error'}`);
+    }
+    throw new Error(`Processing failed: ${status.error || 'Unknown error'}`);
   }
 
-  throw new Error('Processing timeout - check worker logs for details');
+  console.log('✅ Processing complete!');
+  for (const flag of status.flaggedSlides || []) {
+    console.log(`  🚩 ${flag.slideId} ${flag.action === 'quarantine' ? 'quarantined' : 'flagged'} by moderation (${flag.categories.join(', ')})`);
+  }
 }
 
 /**
@@ -293,18 +541,25 @@ Usage: npm run process-deck -- [options]
 
 Options:
   --deck-name <name>         Name of the deck (required)
-  --slides-dir <path>        Path to directory containing slides (required)
+  --slides-dir <path>        Path to directory containing slides (required unless --pdf is given)
+  --pdf <file>               Rasterize a PDF's pages into slides, titled with each page's first line of text
+  --dpi <n>                  Resolution for --pdf pages (default: ${DEFAULT_PDF_DPI})
   --description <text>       Optional deck description
   --worker-url <url>         Worker URL (default: http://localhost:8787)
+  --api-key <key>            Organization API key (default: $BATTLE_DECKS_API_KEY)
+  --visibility <level>       private (default), unlisted (prints a share link) or public
 
 Examples:
   npm run process-deck -- --deck-name "My Deck" --slides-dir ./slides
   npm run process-deck -- --deck-name "Tech Talk" --slides-dir ./slides --description "Conference presentation"
+  npm run process-deck -- --deck-name "Keynote" --pdf ./keynote.pdf --dpi 200
 
 Notes:
   - Slides must be named in order (slide_1.jpg, slide_2.png, etc.)
-  - Supported formats: .jpg, .jpeg, .png
+  - Supported formats: .jpg, .jpeg, .png, .webp
+  - --pdf needs poppler's pdftoppm and pdftotext on the PATH
   - Make sure wrangler dev is running or specify production worker URL
+  - API keys are issued per organization with POST /api/orgs (see docs/BACKEND.md)
   `);
 }
 
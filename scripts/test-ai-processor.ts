@@ -84,17 +84,29 @@ function testAdjacencyList() {
     console.log(`  ${slideId}:`);
     console.log(`    logical:  [${entry.logical.join(', ')}]`);
     console.log(`    chaotic:  [${entry.chaotic.join(', ')}]`);
+    console.log(`    moderate: [${(entry.moderate ?? []).join(', ')}]`);
 
-    // Validate that each slide has exactly 3 logical and 3 chaotic neighbors
+    // Validate that each slide has exactly 3 logical, chaotic and moderate neighbors
     if (entry.logical.length !== 3) {
       throw new Error(`Failed: ${slideId} should have exactly 3 logical neighbors`);
     }
     if (entry.chaotic.length !== 3) {
       throw new Error(`Failed: ${slideId} should have exactly 3 chaotic neighbors`);
     }
+    if (entry.moderate?.length !== 3) {
+      throw new Error(`Failed: ${slideId} should have exactly 3 moderate neighbors`);
+    }
+
+    // Validate that the full ranking covers every other slide, best match first
+    if (entry.ranking?.length !== embeddings.length - 1 || entry.ranking.includes(slideId)) {
+      throw new Error(`Failed: ${slideId} ranking should list every other slide exactly once`);
+    }
+    if (entry.ranking[0] !== entry.logical[0] || entry.ranking[entry.ranking.length - 1] !== entry.chaotic[0]) {
+      throw new Error(`Failed: ${slideId} ranking should start with the best logical and end with the best chaotic neighbor`);
+    }
 
     // Validate that slide doesn't reference itself
-    if (entry.logical.includes(slideId) || entry.chaotic.includes(slideId)) {
+    if (entry.logical.includes(slideId) || entry.chaotic.includes(slideId) || entry.moderate.includes(slideId)) {
       throw new Error(`Failed: ${slideId} should not reference itself`);
     }
   }
@@ -2,16 +2,22 @@ import {
   Env,
   SlideEmbedding,
   SimilarityScore,
-  AdjacencyRecord,
+  SlideNeighbors,
+  SlideModerationFlag,
+  SlideProcessingStep,
+  ModerationAction,
 } from './types/index';
+import { deckKey, slideObjectKey } from './tenancy';
+import { SlideModerator, createModerator } from './moderation';
 
 /**
  * AI Processor for Battle Decks
  *
  * Handles:
+ * - Moderating slide images before they can be shown (see moderation.ts)
  * - Generating embeddings from slide images using Cloudflare Workers AI
  * - Calculating similarity between slides
- * - Building adjacency lists (logical vs chaotic relationships)
+ * - Building adjacency lists (logical, moderate and chaotic relationships)
  * - Storing processed data to KV
  *
  * Architecture:
@@ -19,7 +25,7 @@ import {
  * 2. Text description → BGE (text-to-embedding) → Vector embedding
  */
 
-// Cloudflare Workers AI models
+// Cloudflare Workers AI models (moderation.ts classifies the LLaVA description rather than captioning again)
 const IMAGE_TO_TEXT_MODEL = '@cf/llava-hf/llava-1.5-7b-hf';
 const TEXT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
 
@@ -33,13 +39,24 @@ export async function generateEmbedding(
   imageBuffer: ArrayBuffer,
   env: Env
 ): Promise<number[]> {
+  return embedDescription(await describeSlide(imageBuffer, env), env);
+}
+
+/**
+ * Step 1: Generate a text description of a slide image using LLaVA
+ */
+export async function describeSlide(
+  imageBuffer: ArrayBuffer,
+  env: Env
+): Promise<string> {
   try {
-    // Step 1: Generate text description from image using LLaVA
     const imageArray = Array.from(new Uint8Array(imageBuffer));
 
     const visionResponse = await env.AI.run(IMAGE_TO_TEXT_MODEL, {
       image: imageArray,
-      prompt: 'Describe this slide in detail, including any text, diagrams, images, and key concepts shown.',
+      // Also used for moderation, so ask for the details a safety check needs
+      prompt: 'Describe this slide in detail, including any text, diagrams, images, and key concepts shown, ' +
+        'and any people, nudity, violence, weapons, drugs or hateful symbols.',
       max_tokens: 256,
     }) as { description: string };
 
@@ -49,8 +66,22 @@ export async function generateEmbedding(
 
     const description = visionResponse.description;
     console.log(`Generated description: ${description.substring(0, 100)}...`);
+    return description;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error describing slide:', errorMessage);
+    throw new Error(`Failed to describe slide: ${errorMessage}`);
+  }
+}
 
-    // Step 2: Generate embedding from text description using BGE
+/**
+ * Step 2: Generate an embedding from a slide description using BGE
+ */
+export async function embedDescription(
+  description: string,
+  env: Env
+): Promise<number[]> {
+  try {
     const embeddingResponse = await env.AI.run(TEXT_EMBEDDING_MODEL, {
       text: description,
     }) as { shape: number[]; data: number[][] };
@@ -106,12 +137,12 @@ export function calculateSimilarity(
 
 /**
  * Generate adjacency list for all slides
- * Creates logical (similar) and chaotic (dissimilar) relationships
+ * Creates logical (similar), moderate (middle-similarity) and chaotic (dissimilar) relationships
  */
 export function generateAdjacencyList(
   embeddings: SlideEmbedding[]
-): Record<string, { logical: string[]; chaotic: string[] }> {
-  const adjacencyList: Record<string, { logical: string[]; chaotic: string[] }> = {};
+): Record<string, SlideNeighbors> {
+  const adjacencyList: Record<string, SlideNeighbors> = {};
 
   // For each slide, calculate similarity with all other slides
   for (const slide1 of embeddings) {
@@ -139,9 +170,15 @@ export function generateAdjacencyList(
     // Bottom 3 = least similar (chaotic)
     const chaotic = similarities.slice(-3).reverse().map(s => s.slideId);
 
+    // Middle 3 = around the median similarity (moderate)
+    const middle = Math.max(0, Math.floor(similarities.length / 2) - 1);
+    const moderate = similarities.slice(middle, middle + 3).map(s => s.slideId);
+
     adjacencyList[slide1.slideId] = {
       logical,
       chaotic,
+      moderate,
+      ranking: similarities.map(s => s.slideId),
     };
   }
 
@@ -153,13 +190,14 @@ export function generateAdjacencyList(
  * Saves the pre-computed slide relationships for runtime use
  */
 export async function storeAdjacencyList(
+  orgId: string,
   deckId: string,
-  adjacencyData: Record<string, { logical: string[]; chaotic: string[] }>,
+  adjacencyData: Record<string, SlideNeighbors>,
   env: Env
 ): Promise<void> {
   try {
     // Store the complete adjacency list under a single key
-    const key = `deck:${deckId}:adjacency`;
+    const key = deckKey(orgId, deckId, 'adjacency');
     await env.DECKS.put(key, JSON.stringify(adjacencyData));
 
     console.log(`✅ Stored adjacency list for deck ${deckId} in KV`);
@@ -175,11 +213,12 @@ export async function storeAdjacencyList(
  * Retrieves pre-computed slide relationships for a deck
  */
 export async function loadAdjacencyList(
+  orgId: string,
   deckId: string,
   env: Env
-): Promise<Record<string, { logical: string[]; chaotic: string[] }> | null> {
+): Promise<Record<string, SlideNeighbors> | null> {
   try {
-    const key = `deck:${deckId}:adjacency`;
+    const key = deckKey(orgId, deckId, 'adjacency');
     const data = await env.DECKS.get(key);
 
     if (!data) {
@@ -195,64 +234,109 @@ export async function loadAdjacencyList(
 }
 
 /**
- * Process a complete deck: generate embeddings and build adjacency lists
- * This is the main orchestration function for AI processing
+ * Process one slide: describe it, moderate the description, then embed it and store the embedding
+ * Returns the moderation flag for unsafe slides (which get no embedding), or null
+ * onStep is called as each step completes, so progress can be persisted per slide
+ * Aborting signal (the deck was deleted) stops it before its next write to R2 or KV
+ *
+ * Deck processing runs slide by slide in a DeckProcessor job (see deck-processor.ts)
  */
-export async function processDeck(
+export async function processSlide(
+  orgId: string,
   deckId: string,
-  slideIds: string[],
-  env: Env
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    console.log(`🔄 Processing deck ${deckId} with ${slideIds.length} slides...`);
+  slideId: string,
+  env: Env,
+  onStep: (step: SlideProcessingStep) => Promise<void> = async () => {},
+  signal: AbortSignal = new AbortController().signal,
+  moderator: SlideModerator = createModerator(env)
+): Promise<SlideModerationFlag | null> {
+  const moderationAction: ModerationAction = env.MODERATION_ACTION === 'flag' ? 'flag' : 'quarantine';
+
+  // Fetch slide image from R2
+  const imageKey = slideObjectKey(orgId, deckId, slideId);
+  const r2Object = await env.SLIDES.get(imageKey);
+
+  if (!r2Object) {
+    throw new Error(`Slide image not found in R2: ${imageKey}`);
+  }
 
-    const embeddings: SlideEmbedding[] = [];
+  const imageBuffer = await r2Object.arrayBuffer();
 
-    // Step 1: Generate embeddings for all slides
-    for (let i = 0; i < slideIds.length; i++) {
-      const slideId = slideIds[i];
-      console.log(`📊 Processing slide ${i + 1}/${slideIds.length}: ${slideId}`);
+  // One caption serves both moderation and the embedding
+  const description = await describeSlide(imageBuffer, env);
+  await onStep('described');
 
-      // Fetch slide image from R2
-      const imageKey = `decks/${deckId}/${slideId}`;
-      const r2Object = await env.SLIDES.get(imageKey);
+  // Unsafe slides never make it into the adjacency data
+  const moderation = await moderator.moderate(description, slideId);
 
-      if (!r2Object) {
-        throw new Error(`Slide image not found in R2: ${imageKey}`);
-      }
+  // Keep the quarantine marker in step with this run's verdict (a slide can be cleared on reprocessing)
+  const quarantined = !moderation.safe && moderationAction === 'quarantine';
+  signal.throwIfAborted();
+  if (quarantined !== (r2Object.customMetadata?.moderation === 'quarantined')) {
+    await setSlideQuarantine(imageKey, imageBuffer, r2Object, quarantined, env);
+  }
 
-      const imageBuffer = await r2Object.arrayBuffer();
+  if (!moderation.safe) {
+    console.warn(`🚩 Slide ${slideId} flagged by moderation (${moderation.categories.join(', ') || 'unsafe'})`);
+    signal.throwIfAborted();
+    await env.DECKS.delete(deckKey(orgId, deckId, `embedding:${slideId}`));
+    await onStep('flagged');
+    return { slideId, categories: moderation.categories, action: moderationAction };
+  }
+  await onStep('moderated');
 
-      // Generate embedding
-      const embedding = await generateEmbedding(imageBuffer, env);
+  // Generate embedding and keep it until the adjacency list is built
+  const embedding = await embedDescription(description, env);
+  const slideEmbedding: SlideEmbedding = { slideId, embedding };
+  signal.throwIfAborted();
+  await env.DECKS.put(deckKey(orgId, deckId, `embedding:${slideId}`), JSON.stringify(slideEmbedding));
+  await onStep('embedded');
 
-      embeddings.push({
-        slideId,
-        embedding,
-      });
+  return null;
+}
+
+/**
+ * Build and store a deck's adjacency list from the embeddings stored by processSlide
+ */
+export async function buildDeckAdjacency(
+  orgId: string,
+  deckId: string,
+  slideIds: string[],
+  env: Env
+): Promise<void> {
+  if (slideIds.length === 0) {
+    throw new Error('Every slide was flagged by moderation');
+  }
 
-      // Optional: Store individual embeddings for future use
-      await env.DECKS.put(
-        `deck:${deckId}:embedding:${slideId}`,
-        JSON.stringify({ slideId, embedding })
-      );
+  const embeddings: SlideEmbedding[] = [];
+  for (const slideId of slideIds) {
+    const embeddingJson = await env.DECKS.get(deckKey(orgId, deckId, `embedding:${slideId}`));
+    if (!embeddingJson) {
+      throw new Error(`Embedding not found for slide ${slideId}`);
     }
+    embeddings.push(JSON.parse(embeddingJson));
+  }
 
-    // Step 2: Generate adjacency list from embeddings
-    console.log(`🔗 Generating adjacency list for ${embeddings.length} slides...`);
-    const adjacencyList = generateAdjacencyList(embeddings);
+  console.log(`🔗 Generating adjacency list for ${embeddings.length} slides...`);
+  const adjacencyList = generateAdjacencyList(embeddings);
 
-    // Step 3: Store adjacency list to KV
-    await storeAdjacencyList(deckId, adjacencyList, env);
+  await storeAdjacencyList(orgId, deckId, adjacencyList, env);
+}
 
-    console.log(`✅ Successfully processed deck ${deckId}`);
-    return { success: true };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error during deck processing';
-    console.error(`❌ Error processing deck ${deckId}:`, errorMessage);
-    return {
-      success: false,
-      error: errorMessage,
-    };
-  }
+/**
+ * Add or remove the quarantine marker that stops /slides serving an image
+ * R2 metadata can't be edited in place, so the object is rewritten (keeping its title)
+ */
+async function setSlideQuarantine(
+  imageKey: string,
+  imageBuffer: ArrayBuffer,
+  r2Object: R2Object,
+  quarantined: boolean,
+  env: Env
+): Promise<void> {
+  const { moderation, ...customMetadata } = r2Object.customMetadata ?? {};
+  await env.SLIDES.put(imageKey, imageBuffer, {
+    httpMetadata: r2Object.httpMetadata,
+    customMetadata: quarantined ? { ...customMetadata, moderation: 'quarantined' } : customMetadata,
+  });
 }
\ No newline at end of file
@@ -0,0 +1,327 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  Env,
+  DeckMetadata,
+  DeckProcessingJob,
+  DeckProgress,
+  DeckProgressEvent,
+  SlideProcessingStep,
+  SlideProgress,
+} from './types/index';
+import { processSlide, buildDeckAdjacency } from './ai-processor';
+import { deckKey } from './tenancy';
+
+/**
+ * Durable deck processing for Battle Decks
+ *
+ * One DeckProcessor per deck (named "{orgId}:{deckId}") works through the
+ * slides in batches, one alarm per batch:
+ *   1. Moderate and embed BATCH_SIZE slides, checkpointing after each slide
+ *   2. Once every slide is done, build the adjacency list and mark the deck ready
+ *
+ * Progress (processedSlides, currentStep) is mirrored onto the deck's metadata
+ * in KV for /api/decks/:deckId/status. If the object is interrupted mid-batch,
+ * the alarm runs again and picks up at the first unfinished slide; a batch that
+ * keeps failing is retried with backoff before the deck is marked failed.
+ *
+ * Per-slide progress (each step, and any error) is kept in storage after the run
+ * and streamed to /api/decks/:deckId/progress subscribers as Server-Sent Events:
+ *   snapshot - full DeckProgress when a client connects
+ *   progress - DeckProgressEvent after every step
+ *   done     - full DeckProgress once the run is ready or failed; the stream then closes
+ */
+
+const BATCH_SIZE = 5;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 10 * 1000; // Multiplied by the attempt number
+
+export class DeckProcessor extends DurableObject<Env> {
+  private job: DeckProcessingJob | undefined;
+  private progress: DeckProgress | undefined;
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private abort = new AbortController(); // Aborted by cancel() to stop a slide mid-flight
+  private encoder = new TextEncoder();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      this.job = await this.ctx.storage.get<DeckProcessingJob>('job');
+      this.progress = await this.ctx.storage.get<DeckProgress>('progress');
+    });
+  }
+
+  // Server-Sent Events stream of this deck's processing progress
+  async fetch(request: Request): Promise<Response> {
+    if (!this.progress) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Deck has not been processed yet'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    this.send(writer, 'snapshot', this.progress);
+    if (this.job) {
+      this.subscribers.add(writer);
+      request.signal.addEventListener('abort', () => this.subscribers.delete(writer));
+    } else {
+      // Nothing running: the snapshot is also the final state
+      this.send(writer, 'done', this.progress);
+      writer.close().catch(() => {});
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      }
+    });
+  }
+
+  // RPC method: Start a processing run; returns false while another run is still going
+  async start(orgId: string, deckId: string, slideIds: string[]): Promise<boolean> {
+    if (this.job) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.abort = new AbortController();
+    this.job = {
+      orgId,
+      deckId,
+      slideIds,
+      nextIndex: 0,
+      safeSlideIds: [],
+      flaggedSlides: [],
+      attempts: 0,
+      startedAt: now,
+    };
+    this.progress = {
+      deckId,
+      totalSlides: slideIds.length,
+      processedSlides: 0,
+      status: 'processing',
+      flaggedSlides: [],
+      slides: slideIds.map(slideId => ({ slideId, step: 'queued', updatedAt: now })),
+    };
+    await this.ctx.storage.put({ job: this.job, progress: this.progress });
+
+    await this.updateDeck({
+      status: 'processing',
+      processedSlides: 0,
+      currentStep: 'Queued for processing',
+      error: undefined,
+      flaggedSlides: [],
+    });
+
+    await this.ctx.storage.setAlarm(now);
+    return true;
+  }
+
+  // RPC method: Whether a run is in progress
+  async isRunning(): Promise<boolean> {
+    return this.job !== undefined;
+  }
+
+  // RPC method: Stop any run and forget its progress (the deck is being deleted)
+  async cancel(): Promise<void> {
+    this.abort.abort();
+    this.job = undefined;
+    this.progress = undefined;
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+
+    for (const writer of this.subscribers) {
+      writer.close().catch(() => {});
+    }
+    this.subscribers.clear();
+  }
+
+  async alarm(): Promise<void> {
+    const job = this.job;
+    if (!job) return;
+
+    try {
+      if (job.nextIndex < job.slideIds.length) {
+        await this.processBatch(job);
+      } else {
+        await this.finish(job);
+      }
+    } catch (error) {
+      // A cancelled run just stops
+      if (this.job !== job) return;
+      await this.handleFailure(job, error);
+    }
+  }
+
+  private async processBatch(job: DeckProcessingJob): Promise<void> {
+    const batchEnd = Math.min(job.nextIndex + BATCH_SIZE, job.slideIds.length);
+
+    while (job.nextIndex < batchEnd) {
+      const slideId = job.slideIds[job.nextIndex];
+      await this.updateDeck({
+        processedSlides: job.nextIndex,
+        currentStep: `Processing slide ${job.nextIndex + 1}/${job.slideIds.length} (${slideId})`,
+      });
+
+      let flag;
+      try {
+        flag = await processSlide(
+          job.orgId, job.deckId, slideId, this.env,
+          step => this.recordSlideStep(slideId, step),
+          this.abort.signal
+        );
+      } catch (error) {
+        if (this.job !== job) return;
+        await this.recordSlideStep(slideId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+        throw error;
+      }
+
+      // The deck was deleted while the slide was being processed
+      if (this.job !== job) return;
+
+      if (flag) {
+        job.flaggedSlides.push(flag);
+      } else {
+        job.safeSlideIds.push(slideId);
+      }
+
+      // Checkpoint: a restart resumes with the next slide
+      job.nextIndex++;
+      await this.ctx.storage.put('job', job);
+    }
+
+    job.attempts = 0;
+    await this.ctx.storage.put('job', job);
+
+    await this.updateDeck({
+      processedSlides: job.nextIndex,
+      flaggedSlides: job.flaggedSlides,
+      currentStep: job.nextIndex < job.slideIds.length ?
+        `Processed ${job.nextIndex}/${job.slideIds.length} slides` :
+        'Building adjacency list',
+    });
+
+    await this.ctx.storage.setAlarm(Date.now());
+  }
+
+  private async finish(job: DeckProcessingJob): Promise<void> {
+    await buildDeckAdjacency(job.orgId, job.deckId, job.safeSlideIds, this.env);
+
+    await this.updateDeck({
+      status: 'ready',
+      processedAt: Date.now(),
+      processedSlides: job.slideIds.length,
+      flaggedSlides: job.flaggedSlides,
+      currentStep: 'Adjacency list built',
+    });
+
+    console.log(`✅ Processed deck ${job.deckId} (${job.flaggedSlides.length} slides flagged)`);
+    await this.clearJob();
+  }
+
+  private async handleFailure(job: DeckProcessingJob, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during deck processing';
+    job.attempts++;
+    console.error(`❌ Error processing deck ${job.deckId} (attempt ${job.attempts}/${MAX_ATTEMPTS}):`, errorMessage);
+
+    if (job.attempts < MAX_ATTEMPTS) {
+      await this.ctx.storage.put('job', job);
+      await this.updateDeck({
+        currentStep: `Retrying after error (attempt ${job.attempts + 1}/${MAX_ATTEMPTS}): ${errorMessage}`,
+      });
+      await this.ctx.storage.setAlarm(Date.now() + RETRY_DELAY * job.attempts);
+      return;
+    }
+
+    await this.updateDeck({
+      status: 'failed',
+      processedAt: Date.now(),
+      processedSlides: job.nextIndex,
+      flaggedSlides: job.flaggedSlides,
+      currentStep: 'Failed',
+      error: errorMessage,
+    });
+    await this.clearJob();
+  }
+
+  // The finished run's progress stays in storage for later subscribers
+  private async clearJob(): Promise<void> {
+    this.job = undefined;
+    await this.ctx.storage.delete('job');
+
+    if (this.progress) {
+      this.broadcast('done', this.progress);
+    }
+    for (const writer of this.subscribers) {
+      writer.close().catch(() => {});
+    }
+    this.subscribers.clear();
+  }
+
+  private async recordSlideStep(slideId: string, step: SlideProcessingStep, error?: string): Promise<void> {
+    if (!this.progress) return;
+
+    const slide: SlideProgress = { slideId, step, error, updatedAt: Date.now() };
+    this.progress.slides = this.progress.slides.map(entry => entry.slideId === slideId ? slide : entry);
+    await this.ctx.storage.put('progress', this.progress);
+
+    this.broadcast('progress', { ...this.getSummary(), slide });
+  }
+
+  // Merge progress into the deck's metadata (a deck deleted mid-run is left deleted)
+  // Nothing else writes the metadata mid-run: slide and visibility changes get 409 while processing
+  private async updateDeck(changes: Partial<DeckMetadata>): Promise<void> {
+    const job = this.job;
+    if (!job) return;
+
+    if (this.progress) {
+      this.progress = {
+        ...this.progress,
+        status: changes.status ?? this.progress.status,
+        processedSlides: changes.processedSlides ?? this.progress.processedSlides,
+        currentStep: changes.currentStep ?? this.progress.currentStep,
+        flaggedSlides: changes.flaggedSlides ?? this.progress.flaggedSlides,
+        error: 'error' in changes ? changes.error : this.progress.error,
+      };
+      await this.ctx.storage.put('progress', this.progress);
+      this.broadcast('progress', this.getSummary());
+    }
+
+    const metadataKey = deckKey(job.orgId, job.deckId, 'metadata');
+    const metadataJson = await this.env.DECKS.get(metadataKey);
+    if (!metadataJson || this.job !== job) return;
+
+    const metadata: DeckMetadata = { ...JSON.parse(metadataJson), ...changes };
+    await this.env.DECKS.put(metadataKey, JSON.stringify(metadata));
+  }
+
+  private getSummary(): DeckProgressEvent {
+    const { slides, ...summary } = this.progress!;
+    return summary;
+  }
+
+  private broadcast(event: string, data: DeckProgress | DeckProgressEvent): void {
+    for (const writer of this.subscribers) {
+      this.send(writer, event, data);
+    }
+  }
+
+  // Writes are queued rather than awaited, so a slow client never holds up processing
+  private send(
+    writer: WritableStreamDefaultWriter<Uint8Array>,
+    event: string,
+    data: DeckProgress | DeckProgressEvent
+  ): void {
+    writer.write(this.encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)).catch(() => {
+      // Client went away
+      this.subscribers.delete(writer);
+    });
+  }
+}
@@ -3,17 +3,79 @@ import {
   Env,
   GameState,
   GamePhase,
+  GameOptions,
+  DurationRamp,
   VoteChoice,
+  VoteTally,
+  SlideNeighbors,
+  AdjacencyDirection,
   VoteResult,
+  VoteResolution,
+  VoteResolutionPolicy,
+  VoteOutcomeReason,
+  SlideFallback,
+  RoundSummary,
+  GameHistoryResponse,
+  LeaderboardEntry,
+  RatingTag,
+  RatingSummary,
+  RATING_TAGS,
   GameStatusResponse,
   WebSocketMessage,
+  TimerAction,
+  TimerUpdate,
   AdjacencyRecord,
   GameRecord,
   ConnectionMetadata,
+  RateLimit,
   SqlRow,
   isGameRecord,
-  isAdjacencyRecord
+  isRoundRecord,
+  isAdjacencyRecord,
+  LoadedDeck,
+  DeckVisibility,
+  MIN_PHASE_DURATION,
+  MAX_PHASE_DURATION
 } from './types/index';
+import { verifyVoterToken } from './voter-token';
+import { consumeToken, parseRateLimit } from './rate-limiter';
+import { deckKey, slideObjectKey, resolveVisibleDeck } from './tenancy';
+import { getSlideManifest } from './slide-manifest';
+
+// Default phase durations (ms), used when startGame is called without timing options
+const DEFAULT_PRESENTATION_DURATION = 45000;
+const DEFAULT_VOTING_DURATION = 10000;
+
+// Time added by the host's "extend" control when no duration is given (ms)
+const DEFAULT_EXTEND_DURATION = 15000;
+
+// Tie-break / no-quorum defaults
+const DEFAULT_RESOLUTION_POLICY: VoteResolutionPolicy = 'random';
+const DEFAULT_MIN_TURNOUT = 1;
+
+// How long the presenter has to break a tie before we pick at random (ms)
+const PRESENTER_DECISION_TIMEOUT = 20000;
+
+// Choices offered when startGame doesn't configure any
+const DEFAULT_VOTE_CHOICES: VoteChoice[] = ['logical', 'chaotic'];
+
+// Tournament mode: audience score range and the scoring window after each turn (ms)
+const MIN_SCORE = 1;
+const MAX_SCORE = 5;
+const SCORING_DURATION = 20000;
+
+// End-of-game rating window for single-presenter games (ms)
+const RATING_DURATION = 30000;
+
+// A room idle this long (waiting, paused or abandoned) is cleaned up and its code can be recycled
+const SESSION_IDLE_TTL = 4 * 60 * 60 * 1000;
+// Finished games stay around long enough for the recap, then are cleaned up
+const FINISHED_SESSION_TTL = 60 * 60 * 1000;
+// WebSocket close code sent when a session's storage is deleted (4000-4999 is application-defined)
+const SESSION_CLOSED_CODE = 4000;
+
+// WebSocket message budget per connection, unless RATE_LIMIT_WS_MESSAGES overrides it
+const DEFAULT_WS_MESSAGE_LIMIT: RateLimit = { capacity: 20, periodSeconds: 10 };
 
 export class GameSession extends DurableObject<Env> {
   private sql: SqlStorage;
@@ -36,12 +98,14 @@ export class GameSession extends DurableObject<Env> {
   }
 
   private initializeTables(): void {
+    // Older DOs stored adjacency as fixed logical/chaotic columns
+    this.migrateLegacyAdjacencyTable();
+
     // Table for slide adjacency data (pre-computed relationships)
     this.sql.exec(`
       CREATE TABLE IF NOT EXISTS adjacency (
         slide_id TEXT PRIMARY KEY,
-        logical_slides TEXT NOT NULL,
-        chaotic_slides TEXT NOT NULL
+        neighbors TEXT NOT NULL
       )
     `);
 
@@ -55,11 +119,98 @@ export class GameSession extends DurableObject<Env> {
         slide_count INTEGER NOT NULL,
         max_slides INTEGER NOT NULL,
         timer_end INTEGER NOT NULL DEFAULT 0,
+        presentation_duration INTEGER NOT NULL DEFAULT ${DEFAULT_PRESENTATION_DURATION},
+        voting_duration INTEGER NOT NULL DEFAULT ${DEFAULT_VOTING_DURATION},
+        duration_ramp TEXT,
+        paused INTEGER NOT NULL DEFAULT 0,
+        paused_remaining INTEGER NOT NULL DEFAULT 0,
+        tie_break_policy TEXT NOT NULL DEFAULT '${DEFAULT_RESOLUTION_POLICY}',
+        no_quorum_policy TEXT NOT NULL DEFAULT '${DEFAULT_RESOLUTION_POLICY}',
+        min_turnout INTEGER NOT NULL DEFAULT ${DEFAULT_MIN_TURNOUT},
+        choices TEXT NOT NULL DEFAULT '${JSON.stringify(DEFAULT_VOTE_CHOICES)}',
+        runoff_reason TEXT,
+        runoff_choices TEXT,
+        awaiting_decision TEXT,
+        last_resolution TEXT,
+        round_started_at INTEGER NOT NULL DEFAULT 0,
+        presenters TEXT NOT NULL DEFAULT '[]',
+        slides_per_turn INTEGER NOT NULL DEFAULT 0,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       )
     `);
 
+    // Backfill columns added after the original schema (DOs created by older versions)
+    this.addColumnIfMissing('game_session', 'presentation_duration', `INTEGER NOT NULL DEFAULT ${DEFAULT_PRESENTATION_DURATION}`);
+    this.addColumnIfMissing('game_session', 'voting_duration', `INTEGER NOT NULL DEFAULT ${DEFAULT_VOTING_DURATION}`);
+    this.addColumnIfMissing('game_session', 'duration_ramp', 'TEXT');
+    this.addColumnIfMissing('game_session', 'paused', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('game_session', 'paused_remaining', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('game_session', 'tie_break_policy', `TEXT NOT NULL DEFAULT '${DEFAULT_RESOLUTION_POLICY}'`);
+    this.addColumnIfMissing('game_session', 'no_quorum_policy', `TEXT NOT NULL DEFAULT '${DEFAULT_RESOLUTION_POLICY}'`);
+    this.addColumnIfMissing('game_session', 'min_turnout', `INTEGER NOT NULL DEFAULT ${DEFAULT_MIN_TURNOUT}`);
+    this.addColumnIfMissing('game_session', 'runoff_reason', 'TEXT');
+    this.addColumnIfMissing('game_session', 'awaiting_decision', 'TEXT');
+    this.addColumnIfMissing('game_session', 'last_resolution', 'TEXT');
+    this.addColumnIfMissing('game_session', 'choices', `TEXT NOT NULL DEFAULT '${JSON.stringify(DEFAULT_VOTE_CHOICES)}'`);
+    this.addColumnIfMissing('game_session', 'runoff_choices', 'TEXT');
+    this.addColumnIfMissing('game_session', 'runoff_first_pass', 'TEXT');
+    this.addColumnIfMissing('game_session', 'round_started_at', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('game_session', 'presenters', "TEXT NOT NULL DEFAULT '[]'");
+    this.addColumnIfMissing('game_session', 'slides_per_turn', 'INTEGER NOT NULL DEFAULT 0');
+
+    // Table for ballots (one per user per round, so votes survive hibernation)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS votes (
+        round INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        choice TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (round, user_id)
+      )
+    `);
+
+    // Table for round history (one row per resolved voting round)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS rounds (
+        round INTEGER PRIMARY KEY,
+        slide_id TEXT NOT NULL,
+        votes TEXT NOT NULL,
+        total_votes INTEGER NOT NULL,
+        winner TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        method TEXT NOT NULL,
+        note TEXT,
+        next_slide TEXT,
+        slide_fallback TEXT,
+        first_pass_votes TEXT,
+        started_at INTEGER NOT NULL,
+        resolved_at INTEGER NOT NULL
+      )
+    `);
+    this.addColumnIfMissing('rounds', 'first_pass_votes', 'TEXT');
+
+    // Table for tournament scores (one per user per presenter turn)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS scores (
+        turn INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (turn, user_id)
+      )
+    `);
+
+    // Table for end-of-game ratings (one per user)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS ratings (
+        user_id TEXT PRIMARY KEY,
+        score INTEGER NOT NULL,
+        tags TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
     // Table for DO metadata persistence (CRITICAL: solves alarm handler issue)
     this.sql.exec(`
       CREATE TABLE IF NOT EXISTS do_metadata (
@@ -76,6 +227,44 @@ export class GameSession extends DurableObject<Env> {
     this.loadMockDataIfNeeded();
   }
 
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`🛠️ Added column ${table}.${column}`);
+    }
+  }
+
+  // Convert the original (slide_id, logical_slides, chaotic_slides) table to the JSON neighbors layout
+  private migrateLegacyAdjacencyTable(): void {
+    const columns = this.sql.exec('PRAGMA table_info(adjacency)').toArray() as { name: string }[];
+    if (!columns.some(c => c.name === 'logical_slides')) return;
+
+    const rows = this.sql.exec('SELECT slide_id, logical_slides, chaotic_slides FROM adjacency').toArray() as {
+      slide_id: string;
+      logical_slides: string;
+      chaotic_slides: string;
+    }[];
+
+    this.sql.exec('DROP TABLE adjacency');
+    this.sql.exec(`
+      CREATE TABLE adjacency (
+        slide_id TEXT PRIMARY KEY,
+        neighbors TEXT NOT NULL
+      )
+    `);
+
+    for (const row of rows) {
+      const neighbors: SlideNeighbors = {
+        logical: JSON.parse(row.logical_slides),
+        chaotic: JSON.parse(row.chaotic_slides)
+      };
+      this.sql.exec('INSERT INTO adjacency (slide_id, neighbors) VALUES (?, ?)', row.slide_id, JSON.stringify(neighbors));
+    }
+
+    console.log(`🛠️ Migrated ${rows.length} adjacency rows to the neighbors layout`);
+  }
+
   private loadMockDataIfNeeded(): void {
     // Only load mock data if there's no real deck data
     // This is kept for backwards compatibility and testing
@@ -86,67 +275,85 @@ export class GameSession extends DurableObject<Env> {
     }
   }
 
+  // Replaces whatever deck is loaded with the built-in demo deck
   private loadMockSlideData(): void {
+    this.sql.exec('DELETE FROM adjacency');
+    this.storeLoadedDeck(null);
+
     // Mock slide data for MVP testing
     const mockSlides = [
       {
         id: 'slide_1',
         logical: ['slide_2', 'slide_3', 'slide_4'],
-        chaotic: ['slide_8', 'slide_9', 'slide_10']
+        chaotic: ['slide_8', 'slide_9', 'slide_10'],
+        moderate: ['slide_5', 'slide_6', 'slide_7']
       },
       {
         id: 'slide_2',
         logical: ['slide_1', 'slide_3', 'slide_5'],
-        chaotic: ['slide_7', 'slide_9', 'slide_10']
+        chaotic: ['slide_7', 'slide_9', 'slide_10'],
+        moderate: ['slide_4', 'slide_6', 'slide_8']
       },
       {
         id: 'slide_3',
         logical: ['slide_1', 'slide_2', 'slide_6'],
-        chaotic: ['slide_8', 'slide_10', 'slide_7']
+        chaotic: ['slide_8', 'slide_10', 'slide_7'],
+        moderate: ['slide_4', 'slide_5', 'slide_9']
       },
       {
         id: 'slide_4',
         logical: ['slide_1', 'slide_5', 'slide_6'],
-        chaotic: ['slide_9', 'slide_10', 'slide_8']
+        chaotic: ['slide_9', 'slide_10', 'slide_8'],
+        moderate: ['slide_2', 'slide_3', 'slide_7']
       },
       {
         id: 'slide_5',
         logical: ['slide_2', 'slide_4', 'slide_6'],
-        chaotic: ['slide_7', 'slide_8', 'slide_10']
+        chaotic: ['slide_7', 'slide_8', 'slide_10'],
+        moderate: ['slide_1', 'slide_3', 'slide_9']
       },
       {
         id: 'slide_6',
         logical: ['slide_3', 'slide_4', 'slide_5'],
-        chaotic: ['slide_7', 'slide_8', 'slide_9']
+        chaotic: ['slide_7', 'slide_8', 'slide_9'],
+        moderate: ['slide_1', 'slide_2', 'slide_10']
       },
       {
         id: 'slide_7',
         logical: ['slide_8', 'slide_9', 'slide_10'],
-        chaotic: ['slide_1', 'slide_2', 'slide_3']
+        chaotic: ['slide_1', 'slide_2', 'slide_3'],
+        moderate: ['slide_4', 'slide_5', 'slide_6']
       },
       {
         id: 'slide_8',
         logical: ['slide_7', 'slide_9', 'slide_10'],
-        chaotic: ['slide_1', 'slide_3', 'slide_4']
+        chaotic: ['slide_1', 'slide_3', 'slide_4'],
+        moderate: ['slide_2', 'slide_5', 'slide_6']
       },
       {
         id: 'slide_9',
         logical: ['slide_7', 'slide_8', 'slide_10'],
-        chaotic: ['slide_2', 'slide_4', 'slide_5']
+        chaotic: ['slide_2', 'slide_4', 'slide_5'],
+        moderate: ['slide_1', 'slide_3', 'slide_6']
       },
       {
         id: 'slide_10',
         logical: ['slide_7', 'slide_8', 'slide_9'],
-        chaotic: ['slide_3', 'slide_5', 'slide_6']
+        chaotic: ['slide_3', 'slide_5', 'slide_6'],
+        moderate: ['slide_1', 'slide_2', 'slide_4']
       }
     ];
 
     for (const slide of mockSlides) {
+      const neighbors: SlideNeighbors = {
+        logical: slide.logical,
+        chaotic: slide.chaotic,
+        moderate: slide.moderate
+      };
       this.sql.exec(
-        'INSERT INTO adjacency (slide_id, logical_slides, chaotic_slides) VALUES (?, ?, ?)',
+        'INSERT INTO adjacency (slide_id, neighbors) VALUES (?, ?)',
         slide.id,
-        JSON.stringify(slide.logical),
-        JSON.stringify(slide.chaotic)
+        JSON.stringify(neighbors)
       );
     }
   }
@@ -183,6 +390,15 @@ export class GameSession extends DurableObject<Env> {
           data: this.getPublicGameState(),
           timestamp: Date.now()
         });
+
+        // Late joiners to a finished game still get the recap
+        if (this.gameState.phase === 'finished') {
+          this.sendToSocket(server, {
+            type: 'history',
+            data: this.buildHistory(),
+            timestamp: Date.now()
+          });
+        }
       }
 
       return new Response(null, {
@@ -195,8 +411,29 @@ export class GameSession extends DurableObject<Env> {
     return new Response('Not found', { status: 404 });
   }
 
+  // RPC method: Take a room code for a new session unless this room is still in use
+  async claimRoomCode(roomCode: string, hostSecret: string, orgId: string | null = null): Promise<boolean> {
+    if (this.isRoomActive()) {
+      return false;
+    }
+
+    await this.initialize(roomCode, hostSecret, orgId);
+    return true;
+  }
+
+  // A room is active until it has gone SESSION_IDLE_TTL without a state change
+  private isRoomActive(): boolean {
+    const lastActivity = this.getLastActivity();
+    return lastActivity !== null && Date.now() - lastActivity < SESSION_IDLE_TTL;
+  }
+
+  private getLastActivity(): number | null {
+    const row = this.sql.exec('SELECT MAX(updated_at) as updated_at FROM game_session').toArray()[0] as { updated_at: number | null } | undefined;
+    return row?.updated_at ?? null;
+  }
+
   // RPC method: Initialize a new game session
-  async initialize(roomCode?: string): Promise<Response> {
+  async initialize(roomCode?: string, hostSecret?: string, orgId: string | null = null): Promise<Response> {
     const sessionId = roomCode || this.ctx.id.toString();
     this.roomCode = roomCode || null;
 
@@ -205,19 +442,56 @@ export class GameSession extends DurableObject<Env> {
       await this.storeRoomCode(roomCode);
     }
 
+    // Only the holder of this secret may drive the game
+    if (hostSecret) {
+      this.storeHostSecret(hostSecret);
+    }
+
+    // The organization that created the session can play its private decks
+    this.storeOrgId(orgId);
+
+    // Voter tokens issued for a previous game on this room code stop verifying
+    this.storeGameNonce();
+
+    // Replaces any timer left from a recycled room's previous game
+    await this.scheduleCleanup(SESSION_IDLE_TTL);
+
     this.gameState = {
       sessionId,
-      currentSlide: 'slide_1',
-      usedSlides: new Set(['slide_1']),
+      currentSlide: '', // Set to the deck's opening slide when the game starts
+      usedSlides: new Set(),
       phase: 'waiting',
-      votes: { logical: 0, chaotic: 0 },
+      choices: [...DEFAULT_VOTE_CHOICES],
+      votes: this.emptyTally(DEFAULT_VOTE_CHOICES),
       voters: new Set(),
       votingOpen: false,
       timerEnd: 0,
+      paused: false,
+      pausedRemaining: 0,
       slideCount: 1,
-      maxSlides: 10
+      maxSlides: 10,
+      presentationDuration: DEFAULT_PRESENTATION_DURATION,
+      votingDuration: DEFAULT_VOTING_DURATION,
+      tieBreakPolicy: DEFAULT_RESOLUTION_POLICY,
+      noQuorumPolicy: DEFAULT_RESOLUTION_POLICY,
+      minTurnout: DEFAULT_MIN_TURNOUT,
+      runoffReason: null,
+      runoffChoices: null,
+      runoffFirstPass: null,
+      awaitingDecision: null,
+      lastResolution: null,
+      roundStartedAt: 0,
+      presenters: [],
+      slidesPerTurn: 0
     };
 
+    this.sql.exec('DELETE FROM votes');
+    this.sql.exec('DELETE FROM rounds');
+    this.sql.exec('DELETE FROM scores');
+    this.sql.exec('DELETE FROM ratings');
+
+    // A recycled room code must not keep serving the previous owner's deck
+    this.loadMockSlideData();
     await this.saveGameState();
 
     return new Response(JSON.stringify({
@@ -229,7 +503,7 @@ export class GameSession extends DurableObject<Env> {
   }
 
   // RPC method: Start the game
-  async startGame(deckId: string, maxSlides: number = 10): Promise<Response> {
+  async startGame(deckId: string, maxSlides: number = 10, options: GameOptions = {}, shareToken?: string): Promise<Response> {
     await this.ensureGameStateLoaded();
 
     if (!this.gameState) {
@@ -242,14 +516,19 @@ export class GameSession extends DurableObject<Env> {
       });
     }
 
+    // A finished or running game goes back to 'waiting' through reset (or replay) first
+    if (this.gameState.phase !== 'waiting') {
+      return this.jsonResponse({ success: false, error: 'Game already started. Reset the room to start a new game.' }, 400);
+    }
+
     // Load deck data from KV if deckId is provided
     if (deckId && deckId !== 'default') {
       console.log(`📦 Loading deck data for: ${deckId}`);
 
       try {
-        // Check if deck exists and is ready
-        const metadataJson = await this.env.DECKS.get(`deck:${deckId}:metadata`);
-        if (!metadataJson) {
+        // The session's organization sees its own decks; anyone sees public decks and unlisted decks they have the link for
+        const metadata = await resolveVisibleDeck(deckId, this.getOrgId(), shareToken, this.env);
+        if (!metadata) {
           return new Response(JSON.stringify({
             success: false,
             error: `Deck not found: ${deckId}`
@@ -259,7 +538,6 @@ export class GameSession extends DurableObject<Env> {
           });
         }
 
-        const metadata = JSON.parse(metadataJson);
         if (metadata.status !== 'ready') {
           return new Response(JSON.stringify({
             success: false,
@@ -271,7 +549,7 @@ export class GameSession extends DurableObject<Env> {
         }
 
         // Load adjacency list from KV
-        const adjacencyJson = await this.env.DECKS.get(`deck:${deckId}:adjacency`);
+        const adjacencyJson = await this.env.DECKS.get(deckKey(metadata.orgId, deckId, 'adjacency'));
         if (!adjacencyJson) {
           return new Response(JSON.stringify({
             success: false,
@@ -282,18 +560,22 @@ export class GameSession extends DurableObject<Env> {
           });
         }
 
-        const adjacencyData = JSON.parse(adjacencyJson) as Record<string, { logical: string[]; chaotic: string[] }>;
+        const adjacencyData = JSON.parse(adjacencyJson) as Record<string, SlideNeighbors>;
 
         // Clear existing adjacency data
         this.sql.exec('DELETE FROM adjacency');
-
-        // Load deck adjacency data into SQLite
-        for (const [slideId, neighbors] of Object.entries(adjacencyData)) {
+        this.storeLoadedDeck({ orgId: metadata.orgId, deckId, visibility: metadata.visibility ?? 'private' });
+
+        // Load deck adjacency data into SQLite in the deck's slide order (the game opens on the first row)
+        const slideOrder = (await getSlideManifest(metadata.orgId, deckId, this.env))
+          .map(slide => slide.slideId)
+          .filter(slideId => slideId in adjacencyData);
+        const unlisted = Object.keys(adjacencyData).filter(slideId => !slideOrder.includes(slideId));
+        for (const slideId of [...slideOrder, ...unlisted]) {
           this.sql.exec(
-            'INSERT INTO adjacency (slide_id, logical_slides, chaotic_slides) VALUES (?, ?, ?)',
+            'INSERT INTO adjacency (slide_id, neighbors) VALUES (?, ?)',
             slideId,
-            JSON.stringify(neighbors.logical),
-            JSON.stringify(neighbors.chaotic)
+            JSON.stringify(adjacencyData[slideId])
           );
         }
 
@@ -310,12 +592,71 @@ export class GameSession extends DurableObject<Env> {
         });
       }
     } else {
+      // The previous game's deck may still be loaded
       console.log('⚠️ Using default/mock deck data');
+      this.loadMockSlideData();
+    }
+
+    const choices = options.choices ?? DEFAULT_VOTE_CHOICES;
+
+    // Decks processed before 'moderate' existed have no neighbor list for it
+    if (choices.includes('moderate') && !this.adjacencySupports('moderate')) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'This deck has no moderate neighbors. Reprocess it to enable the moderate choice.'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // A tournament runs every presenter's full turn, so it sets the game length itself
+    const presenters = options.presenters ?? [];
+    const slidesPerTurn = presenters.length > 0 ? options.slidesPerTurn ?? maxSlides : 0;
+    if (presenters.length > 0) {
+      maxSlides = presenters.length * slidesPerTurn;
+
+      const deckSize = this.sql.exec('SELECT COUNT(*) as count FROM adjacency').one() as { count: number };
+      if (deckSize.count < maxSlides) {
+        return this.jsonResponse({
+          success: false,
+          error: `Deck has ${deckSize.count} slides, but ${presenters.length} presenters × ${slidesPerTurn} slides needs ${maxSlides}`
+        }, 400);
+      }
     }
 
+    // Ballots, scores, ratings and history from a previous game on this room code no longer apply
+    this.sql.exec('DELETE FROM votes');
+    this.sql.exec('DELETE FROM rounds');
+    this.sql.exec('DELETE FROM scores');
+    this.sql.exec('DELETE FROM ratings');
+
+    // Open on the deck's first slide in manifest order that made it through moderation
+    const openingSlide = this.getOpeningSlide();
+    this.gameState.currentSlide = openingSlide;
+    this.gameState.usedSlides = new Set([openingSlide]);
+
     this.gameState.phase = 'presenting';
     this.gameState.maxSlides = maxSlides;
-    this.gameState.timerEnd = Date.now() + 45000; // 45 seconds
+    this.gameState.presenters = [...presenters];
+    this.gameState.slidesPerTurn = slidesPerTurn;
+    this.gameState.presentationDuration = options.presentationDuration ?? DEFAULT_PRESENTATION_DURATION;
+    this.gameState.votingDuration = options.votingDuration ?? DEFAULT_VOTING_DURATION;
+    this.gameState.durationRamp = options.durationRamp;
+    this.gameState.choices = [...choices];
+    this.gameState.votes = this.emptyTally(choices);
+    this.gameState.tieBreakPolicy = options.tieBreakPolicy ?? DEFAULT_RESOLUTION_POLICY;
+    this.gameState.noQuorumPolicy = options.noQuorumPolicy ?? DEFAULT_RESOLUTION_POLICY;
+    this.gameState.minTurnout = options.minTurnout ?? DEFAULT_MIN_TURNOUT;
+    this.gameState.runoffReason = null;
+    this.gameState.runoffChoices = null;
+    this.gameState.runoffFirstPass = null;
+    this.gameState.awaitingDecision = null;
+    this.gameState.lastResolution = null;
+    this.gameState.paused = false;
+    this.gameState.pausedRemaining = 0;
+    this.gameState.roundStartedAt = Date.now();
+    this.gameState.timerEnd = Date.now() + this.getPhaseDuration('presenting');
 
     await this.saveGameState();
     this.startPresentationTimer();
@@ -343,7 +684,25 @@ export class GameSession extends DurableObject<Env> {
       });
     }
 
-    if (this.gameState.voters.has(userId)) {
+    const openChoices = this.gameState.runoffChoices ?? this.gameState.choices;
+    if (!openChoices.includes(choice)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Invalid choice: ${choice}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const round = this.gameState.slideCount;
+    const existing = this.sql.exec(
+      'SELECT COUNT(*) as count FROM votes WHERE round = ? AND user_id = ?',
+      round,
+      userId
+    ).one() as { count: number };
+
+    if (this.gameState.voters.has(userId) || existing.count > 0) {
       return new Response(JSON.stringify({
         success: false,
         error: 'User has already voted'
@@ -353,8 +712,15 @@ export class GameSession extends DurableObject<Env> {
       });
     }
 
-    // Record the vote
-    this.gameState.votes[choice]++;
+    // Record the vote (persist first so it survives hibernation)
+    this.sql.exec(
+      'INSERT INTO votes (round, user_id, choice, created_at) VALUES (?, ?, ?, ?)',
+      round,
+      userId,
+      choice,
+      Date.now()
+    );
+    this.gameState.votes[choice] = (this.gameState.votes[choice] ?? 0) + 1;
     this.gameState.voters.add(userId);
 
     // Broadcast vote update to all connected clients
@@ -372,9 +738,9 @@ export class GameSession extends DurableObject<Env> {
   async getStatus(): Promise<Response> {
     await this.ensureGameStateLoaded();
 
-    if (!this.gameState) {
+    if (!this.gameState || !this.isRoomActive()) {
       return new Response(JSON.stringify({
-        error: 'Session not found'
+        error: this.gameState ? 'Session has expired' : 'Session not found'
       }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
@@ -385,10 +751,30 @@ export class GameSession extends DurableObject<Env> {
       sessionId: this.gameState.sessionId,
       currentSlide: this.gameState.currentSlide,
       phase: this.gameState.phase,
+      choices: this.gameState.choices,
       votes: this.gameState.votes,
-      timeRemaining: Math.max(0, this.gameState.timerEnd - Date.now()),
+      timeRemaining: this.getTimeRemaining(),
       slideCount: this.gameState.slideCount,
-      votingOpen: this.gameState.votingOpen
+      maxSlides: this.gameState.maxSlides,
+      votingOpen: this.gameState.votingOpen,
+      paused: this.gameState.paused,
+      presentationDuration: this.getPhaseDuration('presenting'),
+      votingDuration: this.getPhaseDuration('voting'),
+      durationRamp: this.gameState.durationRamp ?? null,
+      tieBreakPolicy: this.gameState.tieBreakPolicy,
+      noQuorumPolicy: this.gameState.noQuorumPolicy,
+      minTurnout: this.gameState.minTurnout,
+      runoff: this.gameState.runoffReason !== null,
+      runoffChoices: this.gameState.runoffChoices,
+      awaitingDecision: this.gameState.awaitingDecision,
+      lastResolution: this.gameState.lastResolution,
+      presenters: this.gameState.presenters,
+      currentPresenter: this.getCurrentPresenter(),
+      slidesPerTurn: this.gameState.slidesPerTurn,
+      scoringDuration: SCORING_DURATION,
+      leaderboard: this.buildLeaderboard(),
+      ratingDuration: RATING_DURATION,
+      rating: this.buildRatingSummary()
     };
 
     return new Response(JSON.stringify(response), {
@@ -396,6 +782,267 @@ export class GameSession extends DurableObject<Env> {
     });
   }
 
+  // RPC method: Presenter picks the winner of a tied or inquorate round
+  async decide(choice: VoteChoice): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState || !this.gameState.awaitingDecision) {
+      return this.jsonResponse({ success: false, error: 'No decision is pending' }, 400);
+    }
+
+    // Only the choices that tied (or every choice, without quorum) are up for the presenter to pick
+    const candidates = this.gameState.runoffChoices ?? this.gameState.choices;
+    if (!candidates.includes(choice)) {
+      return this.jsonResponse({ success: false, error: `Choice must be one of: ${candidates.join(', ')}` }, 400);
+    }
+
+    await this.ctx.storage.deleteAlarm();
+
+    const resolution = this.buildResolution(this.gameState.awaitingDecision, 'presenter', choice);
+    this.gameState.awaitingDecision = null;
+    this.gameState.paused = false;
+    this.gameState.pausedRemaining = 0;
+    await this.advanceWithResolution(resolution);
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Get the rounds played so far and the path through the deck
+  async getHistory(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState) {
+      return this.jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    return this.jsonResponse(this.buildHistory());
+  }
+
+  // RPC method: End the current game immediately
+  async endGame(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState || this.gameState.phase === 'waiting' || this.gameState.phase === 'finished') {
+      return this.jsonResponse({ success: false, error: 'No game in progress' }, 400);
+    }
+
+    await this.ctx.storage.deleteAlarm();
+
+    this.gameState.phase = 'finished';
+    this.gameState.votingOpen = false;
+    this.gameState.timerEnd = 0;
+    this.gameState.paused = false;
+    this.gameState.pausedRemaining = 0;
+    this.gameState.runoffReason = null;
+    this.gameState.runoffChoices = null;
+    this.gameState.runoffFirstPass = null;
+    this.gameState.awaitingDecision = null;
+
+    await this.finishGame();
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Put the room back into 'waiting' so the same code can host another game
+  async resetGame(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState) {
+      return this.jsonResponse({ success: false, error: 'Session not initialized' }, 400);
+    }
+
+    await this.clearGame();
+    this.broadcastGameState();
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Reset and start a new game (possibly with another deck) without the audience rejoining
+  async replayGame(deckId: string, maxSlides: number = 10, options: GameOptions = {}, shareToken?: string): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState) {
+      return this.jsonResponse({ success: false, error: 'Session not initialized' }, 400);
+    }
+
+    await this.clearGame();
+    this.broadcastGameState();
+
+    // If the new deck can't start, the room stays in 'waiting' and the host can try again
+    return this.startGame(deckId, maxSlides, options, shareToken);
+  }
+
+  // RPC method: Freeze the current phase timer
+  async pause(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    const error = this.checkTimerControllable();
+    if (error) return this.jsonResponse({ success: false, error }, 400);
+
+    if (this.gameState!.paused) {
+      return this.jsonResponse({ success: false, error: 'Game is already paused' }, 400);
+    }
+
+    this.gameState!.pausedRemaining = Math.max(0, this.gameState!.timerEnd - Date.now());
+    this.gameState!.paused = true;
+    await this.scheduleCleanup(SESSION_IDLE_TTL); // Replaces the phase timer
+    await this.saveGameState();
+
+    console.log(`⏸️ Paused ${this.gameState!.phase} with ${this.gameState!.pausedRemaining}ms remaining`);
+    this.broadcastTimerUpdate('pause');
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Restart the timer from where it was paused
+  async resume(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    const error = this.checkTimerControllable();
+    if (error) return this.jsonResponse({ success: false, error }, 400);
+
+    if (!this.gameState!.paused) {
+      return this.jsonResponse({ success: false, error: 'Game is not paused' }, 400);
+    }
+
+    this.gameState!.timerEnd = Date.now() + this.gameState!.pausedRemaining;
+    this.gameState!.paused = false;
+    this.gameState!.pausedRemaining = 0;
+    await this.saveGameState();
+    await this.ctx.storage.setAlarm(this.gameState!.timerEnd);
+
+    console.log(`▶️ Resumed ${this.gameState!.phase}, timer ends at ${this.gameState!.timerEnd}`);
+    this.broadcastTimerUpdate('resume');
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Add time to the current phase (works while paused too)
+  async extend(duration: number = DEFAULT_EXTEND_DURATION): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    const error = this.checkTimerControllable();
+    if (error) return this.jsonResponse({ success: false, error }, 400);
+
+    if (this.gameState!.paused) {
+      this.gameState!.pausedRemaining += duration;
+      await this.saveGameState();
+    } else {
+      this.gameState!.timerEnd = Math.max(this.gameState!.timerEnd, Date.now()) + duration;
+      await this.saveGameState();
+      await this.ctx.storage.setAlarm(this.gameState!.timerEnd);
+    }
+
+    console.log(`⏩ Extended ${this.gameState!.phase} by ${duration}ms`);
+    this.broadcastTimerUpdate('extend');
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: End the current phase immediately (presenting → voting, voting → next slide)
+  async skip(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    const error = this.checkTimerControllable();
+    if (error) return this.jsonResponse({ success: false, error }, 400);
+
+    console.log(`⏭️ Host skipped the rest of ${this.gameState!.phase}`);
+    this.broadcastTimerUpdate('skip');
+    await this.forceAdvance();
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+  // RPC method: Close voting early and tally the votes cast so far
+  async closeVoting(): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    const error = this.checkTimerControllable();
+    if (error) return this.jsonResponse({ success: false, error }, 400);
+
+    if (this.gameState!.phase !== 'voting') {
+      return this.jsonResponse({ success: false, error: 'Voting is not currently open' }, 400);
+    }
+
+    console.log('🗳️ Host closed voting early');
+    this.broadcastTimerUpdate('closeVoting');
+    await this.forceAdvance();
+
+    return this.jsonResponse({ success: true, gameState: this.getPublicGameState() });
+  }
+
+
+  // RPC method: Rate the talk during the end-of-game rating phase
+  async rate(userId: string, score: number, tags: RatingTag[] = []): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState || this.gameState.phase !== 'rating') {
+      return this.jsonResponse({ success: false, error: 'Rating is not currently open' }, 400);
+    }
+
+    if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+      return this.jsonResponse({ success: false, error: `score must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}` }, 400);
+    }
+
+    if (!Array.isArray(tags)) {
+      return this.jsonResponse({ success: false, error: 'tags must be an array' }, 400);
+    }
+    const unknownTag = tags.find(tag => !RATING_TAGS.includes(tag));
+    if (unknownTag !== undefined) {
+      return this.jsonResponse({ success: false, error: `Unknown tag: ${unknownTag}. Expected any of: ${RATING_TAGS.join(', ')}` }, 400);
+    }
+
+    const existing = this.sql.exec('SELECT COUNT(*) as count FROM ratings WHERE user_id = ?', userId).one() as { count: number };
+    if (existing.count > 0) {
+      return this.jsonResponse({ success: false, error: 'User has already rated this game' }, 400);
+    }
+
+    this.sql.exec(
+      'INSERT INTO ratings (user_id, score, tags, created_at) VALUES (?, ?, ?, ?)',
+      userId,
+      score,
+      JSON.stringify(Array.from(new Set(tags))),
+      Date.now()
+    );
+
+    this.broadcastRatingUpdate();
+
+    return this.jsonResponse({ success: true, rating: this.buildRatingSummary() });
+  }
+
+  // RPC method: Score the presenter whose turn just ended (tournament mode)
+  async score(userId: string, score: number): Promise<Response> {
+    await this.ensureGameStateLoaded();
+
+    if (!this.gameState || this.gameState.phase !== 'scoring') {
+      return this.jsonResponse({ success: false, error: 'Scoring is not currently open' }, 400);
+    }
+
+    if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+      return this.jsonResponse({ success: false, error: `score must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}` }, 400);
+    }
+
+    const turn = this.getCurrentTurn();
+    const existing = this.sql.exec(
+      'SELECT COUNT(*) as count FROM scores WHERE turn = ? AND user_id = ?',
+      turn,
+      userId
+    ).one() as { count: number };
+
+    if (existing.count > 0) {
+      return this.jsonResponse({ success: false, error: 'User has already scored this presenter' }, 400);
+    }
+
+    this.sql.exec(
+      'INSERT INTO scores (turn, user_id, score, created_at) VALUES (?, ?, ?, ?)',
+      turn,
+      userId,
+      score,
+      Date.now()
+    );
+
+    return this.jsonResponse({ success: true, presenter: this.getCurrentPresenter() });
+  }
 
   // WebSocket message handler (called when DO wakes from hibernation)
   async webSocketMessage(ws: WebSocket, message: string): Promise<void> {
@@ -405,11 +1052,22 @@ export class GameSession extends DurableObject<Env> {
 
       const data = JSON.parse(message);
 
-      // Update last activity
+      // Update last activity and spend from this connection's message budget
       const metadata = ws.deserializeAttachment() as ConnectionMetadata;
+      const rateLimit = consumeToken(metadata.rateLimit, parseRateLimit(this.env.RATE_LIMIT_WS_MESSAGES, DEFAULT_WS_MESSAGE_LIMIT));
       metadata.lastActivity = Date.now();
+      metadata.rateLimit = rateLimit.bucket;
       ws.serializeAttachment(metadata);
 
+      if (!rateLimit.allowed) {
+        this.sendToSocket(ws, {
+          type: 'error',
+          data: { message: 'Too many messages - please slow down', retryAfter: rateLimit.retryAfter },
+          timestamp: Date.now()
+        });
+        return;
+      }
+
       // Handle different message types
       switch (data.type) {
         case 'ping':
@@ -420,11 +1078,33 @@ export class GameSession extends DurableObject<Env> {
           });
           break;
 
-        case 'join':
-          // Handle user joining
-          if (data.userId) {
-            metadata.userId = data.userId;
-            ws.serializeAttachment(metadata);
+        case 'join': {
+          // Voters prove their identity with the token from /join; displays join without one
+          if (!data.token && !data.userId) break;
+
+          const userId = this.gameState && this.env.VOTER_TOKEN_SECRET ?
+            await verifyVoterToken(this.env.VOTER_TOKEN_SECRET, this.gameState.sessionId, await this.getGameNonce(), data.token) : null;
+          if (!userId) {
+            this.sendToSocket(ws, {
+              type: 'error',
+              data: { message: 'Missing or invalid voter token - please rejoin the session' },
+              timestamp: Date.now()
+            });
+            break;
+          }
+
+          metadata.userId = userId;
+          ws.serializeAttachment(metadata);
+          break;
+        }
+
+        case 'history':
+          if (this.gameState) {
+            this.sendToSocket(ws, {
+              type: 'history',
+              data: this.buildHistory(),
+              timestamp: Date.now()
+            });
           }
           break;
 
@@ -461,61 +1141,230 @@ export class GameSession extends DurableObject<Env> {
 
       await this.ensureGameStateLoaded();
       if (!this.gameState) {
-        console.error('❌ Alarm handler: No game state found, cannot proceed');
+        console.log('🧹 Alarm handler: No game state found, clearing leftover storage');
+        await this.cleanupSession('Session not found');
         return;
       }
 
       console.log(`🔔 Processing alarm for session ${this.gameState.sessionId}, phase: ${this.gameState.phase}`);
 
-      if (this.gameState.phase === 'presenting') {
-        // Check if this is the final slide
-        if (this.gameState.slideCount >= this.gameState.maxSlides) {
-          // Game is complete - skip voting and go directly to finished
-          console.log(`🏁 Game complete! Final slide ${this.gameState.slideCount}/${this.gameState.maxSlides} - skipping voting`);
-          this.gameState.phase = 'finished';
-          this.gameState.timeRemaining = 0;
-          await this.saveGameState();
-          await this.broadcastGameState();
-        } else {
-          // Switch to voting phase
-          this.gameState.phase = 'voting';
-          await this.saveGameState(); // CRITICAL: Save state changes to database
-          await this.startVotingTimer();
-        }
-      } else if (this.gameState.phase === 'voting') {
-        // Process votes and move to next slide
-        await this.processVotesAndAdvance();
+      // Without a running phase timer the only pending alarm is the cleanup check
+      if (this.gameState.paused || this.gameState.phase === 'waiting' || this.gameState.phase === 'finished') {
+        await this.checkCleanup();
+        return;
       }
+
+      await this.advancePhase();
     } catch (error) {
       console.error('❌ Critical error in alarm handler:', error);
       // Don't throw - let the alarm retry with exponential backoff
     }
   }
 
-  // SOLUTION: Store room code persistently for alarm handler recovery
-  private async storeRoomCode(roomCode: string): Promise<void> {
-    this.sql.exec(
-      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
-      'room_code',
-      roomCode,
-      Date.now()
-    );
+  // Arm the cleanup alarm; only used while no phase timer needs the alarm
+  private async scheduleCleanup(delay: number): Promise<void> {
+    await this.ctx.storage.setAlarm(Date.now() + delay);
   }
 
-  // SOLUTION: Recover room code from storage after DO restart
-  private async recoverRoomCodeFromStorage(): Promise<void> {
-    try {
-      const result = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'room_code').one() as { value: string } | null;
-      if (result) {
-        this.roomCode = result.value;
-        console.log(`✅ Recovered room code: ${this.roomCode} after DO restart`);
-      } else {
-        console.log('ℹ️ No stored room code found (expected for new DO)');
-      }
-    } catch (error) {
-      // This is expected for new DOs or DOs created before this fix
-      console.log('ℹ️ No room code metadata table found (expected for new/legacy DO)', error);
-    }
+  // Clean up once the session has been idle for its TTL, otherwise check again when it would expire
+  private async checkCleanup(): Promise<void> {
+    if (!this.gameState) return;
+
+    const ttl = this.gameState.phase === 'finished' ? FINISHED_SESSION_TTL : SESSION_IDLE_TTL;
+    const idle = Date.now() - (this.getLastActivity() ?? 0);
+
+    if (idle < ttl) {
+      await this.scheduleCleanup(ttl - idle);
+      return;
+    }
+
+    await this.cleanupSession(this.gameState.phase === 'finished' ? 'Game finished' : 'Session expired');
+  }
+
+  // Disconnect everyone and delete all storage so the room code stops resolving
+  private async cleanupSession(reason: string): Promise<void> {
+    console.log(`🧹 Cleaning up session ${this.roomCode ?? this.ctx.id.toString()}: ${reason}`);
+
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.close(SESSION_CLOSED_CODE, reason);
+      } catch (error) {
+        console.error('Error closing WebSocket during cleanup:', error);
+      }
+    }
+
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+
+    this.gameState = null;
+    this.roomCode = null;
+
+    // Keep this instance usable if the code is claimed again before it is evicted
+    this.initializeTables();
+  }
+
+  // Move the game out of its current timed phase (shared by the alarm and host controls)
+  private async advancePhase(): Promise<void> {
+    if (!this.gameState) return;
+
+    if (this.gameState.phase === 'presenting') {
+      if (this.isTurnComplete()) {
+        // Tournament: the presenter's last slide is followed by audience scoring instead of a vote
+        console.log(`🏆 ${this.getCurrentPresenter()} finished their turn - opening scoring`);
+        await this.startScoringTimer();
+      } else if (this.gameState.slideCount >= this.gameState.maxSlides) {
+        // Last slide - skip voting and let the audience rate the talk
+        console.log(`🏁 Final slide ${this.gameState.slideCount}/${this.gameState.maxSlides} done - skipping voting`);
+        this.gameState.timeRemaining = 0;
+        await this.endPresentations();
+      } else {
+        // Switch to voting phase
+        this.gameState.phase = 'voting';
+        await this.saveGameState(); // CRITICAL: Save state changes to database
+        await this.startVotingTimer();
+      }
+    } else if (this.gameState.phase === 'voting') {
+      // Process votes and move to next slide
+      await this.processVotesAndAdvance();
+    } else if (this.gameState.phase === 'scoring') {
+      await this.endTurn();
+    } else if (this.gameState.phase === 'rating') {
+      await this.finishGame();
+    }
+  }
+
+  // Cancel the pending alarm and advance right away, clearing any pause
+  private async forceAdvance(): Promise<void> {
+    await this.ctx.storage.deleteAlarm();
+    this.gameState!.paused = false;
+    this.gameState!.pausedRemaining = 0;
+    await this.advancePhase();
+  }
+
+  // Timer controls only make sense while a timed phase is running
+  private checkTimerControllable(): string | null {
+    if (!this.gameState) {
+      return 'Session not initialized';
+    }
+    if (this.gameState.phase === 'waiting' || this.gameState.phase === 'finished') {
+      return `Timer controls are not available while the game is ${this.gameState.phase}`;
+    }
+    return null;
+  }
+
+  // SOLUTION: Store room code persistently for alarm handler recovery
+  private async storeRoomCode(roomCode: string): Promise<void> {
+    this.sql.exec(
+      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
+      'room_code',
+      roomCode,
+      Date.now()
+    );
+  }
+
+  private storeHostSecret(hostSecret: string): void {
+    this.sql.exec(
+      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
+      'host_secret',
+      hostSecret,
+      Date.now()
+    );
+  }
+
+  private storeGameNonce(): string {
+    const nonce = crypto.randomUUID();
+    this.sql.exec(
+      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
+      'game_nonce',
+      nonce,
+      Date.now()
+    );
+    return nonce;
+  }
+
+  // RPC method: Per-game value signed into voter tokens (rooms initialized before it existed get one now)
+  async getGameNonce(): Promise<string> {
+    const row = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'game_nonce').toArray()[0] as { value: string } | undefined;
+    return row?.value ?? this.storeGameNonce();
+  }
+
+  private storeOrgId(orgId: string | null): void {
+    if (!orgId) {
+      this.sql.exec('DELETE FROM do_metadata WHERE key = ?', 'org_id');
+      return;
+    }
+
+    this.sql.exec(
+      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
+      'org_id',
+      orgId,
+      Date.now()
+    );
+  }
+
+  // The deck whose adjacency data is loaded; its visibility was checked when it was loaded
+  private storeLoadedDeck(deck: LoadedDeck | null): void {
+    if (!deck) {
+      this.sql.exec('DELETE FROM do_metadata WHERE key = ?', 'deck');
+      return;
+    }
+
+    this.sql.exec(
+      'INSERT OR REPLACE INTO do_metadata (key, value, created_at) VALUES (?, ?, ?)',
+      'deck',
+      JSON.stringify(deck),
+      Date.now()
+    );
+  }
+
+  private getLoadedDeck(): LoadedDeck | null {
+    const row = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'deck').toArray()[0] as { value: string } | undefined;
+    return row ? JSON.parse(row.value) as LoadedDeck : null;
+  }
+
+  // RPC method: R2 key of one of the loaded deck's slides, so the room can show it without an API key
+  async getSlideImage(slideId: string): Promise<{ key: string; visibility: DeckVisibility } | null> {
+    if (!this.getNeighbors(slideId)) return null;
+
+    // The built-in demo deck's images sit at the bucket root (slide_1.jpg, ...)
+    const deck = this.getLoadedDeck();
+    if (!deck) return { key: `${slideId}.jpg`, visibility: 'public' };
+
+    return { key: slideObjectKey(deck.orgId, deck.deckId, slideId), visibility: deck.visibility };
+  }
+
+  private getOrgId(): string | null {
+    const row = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'org_id').toArray()[0] as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  // RPC method: Check a host secret presented with a control request
+  async isHost(hostSecret: string | null): Promise<boolean> {
+    if (!hostSecret) return false;
+
+    const row = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'host_secret').toArray()[0] as { value: string } | undefined;
+    if (!row) return false;
+
+    const encoder = new TextEncoder();
+    const expected = encoder.encode(row.value);
+    const actual = encoder.encode(hostSecret);
+    return expected.byteLength === actual.byteLength && crypto.subtle.timingSafeEqual(expected, actual);
+  }
+
+  // SOLUTION: Recover room code from storage after DO restart
+  private async recoverRoomCodeFromStorage(): Promise<void> {
+    try {
+      const result = this.sql.exec('SELECT value FROM do_metadata WHERE key = ?', 'room_code').one() as { value: string } | null;
+      if (result) {
+        this.roomCode = result.value;
+        console.log(`✅ Recovered room code: ${this.roomCode} after DO restart`);
+      } else {
+        console.log('ℹ️ No stored room code found (expected for new DO)');
+      }
+    } catch (error) {
+      // This is expected for new DOs or DOs created before this fix
+      console.log('ℹ️ No room code metadata table found (expected for new/legacy DO)', error);
+    }
   }
 
   // Ensure game state is loaded from SQLite (important after hibernation)
@@ -530,8 +1379,11 @@ export class GameSession extends DurableObject<Env> {
 
     this.sql.exec(`
       INSERT OR REPLACE INTO game_session
-      (session_id, current_slide, used_slides, phase, slide_count, max_slides, timer_end, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (session_id, current_slide, used_slides, phase, slide_count, max_slides, timer_end,
+       presentation_duration, voting_duration, duration_ramp, paused, paused_remaining,
+       tie_break_policy, no_quorum_policy, min_turnout, choices, runoff_reason, runoff_choices,
+       runoff_first_pass, awaiting_decision, last_resolution, round_started_at, presenters, slides_per_turn, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
       this.gameState.sessionId,
       this.gameState.currentSlide,
@@ -540,6 +1392,23 @@ export class GameSession extends DurableObject<Env> {
       this.gameState.slideCount,
       this.gameState.maxSlides,
       this.gameState.timerEnd,
+      this.gameState.presentationDuration,
+      this.gameState.votingDuration,
+      this.gameState.durationRamp ? JSON.stringify(this.gameState.durationRamp) : null,
+      this.gameState.paused ? 1 : 0,
+      this.gameState.pausedRemaining,
+      this.gameState.tieBreakPolicy,
+      this.gameState.noQuorumPolicy,
+      this.gameState.minTurnout,
+      JSON.stringify(this.gameState.choices),
+      this.gameState.runoffReason,
+      this.gameState.runoffChoices ? JSON.stringify(this.gameState.runoffChoices) : null,
+      this.gameState.runoffFirstPass ? JSON.stringify(this.gameState.runoffFirstPass) : null,
+      this.gameState.awaitingDecision,
+      this.gameState.lastResolution ? JSON.stringify(this.gameState.lastResolution) : null,
+      this.gameState.roundStartedAt,
+      JSON.stringify(this.gameState.presenters),
+      this.gameState.slidesPerTurn,
       Date.now(),
       Date.now()
     );
@@ -571,17 +1440,36 @@ export class GameSession extends DurableObject<Env> {
         await this.storeRoomCode(result.session_id); // Persist for future recovery
       }
 
+      const choices = JSON.parse(result.choices) as VoteChoice[];
+
       this.gameState = {
         sessionId: result.session_id,
         currentSlide: result.current_slide,
         usedSlides: new Set(JSON.parse(result.used_slides)),
         phase: result.phase as GamePhase,
-        votes: { logical: 0, chaotic: 0 },
-        voters: new Set(),
-        votingOpen: false,
+        choices,
+        votes: this.tallyVotes(result.slide_count, choices),
+        voters: this.loadVoters(result.slide_count),
+        votingOpen: result.phase === 'voting' && !result.awaiting_decision,
         timerEnd: result.timer_end,
+        paused: result.paused === 1,
+        pausedRemaining: result.paused_remaining,
         slideCount: result.slide_count,
-        maxSlides: result.max_slides
+        maxSlides: result.max_slides,
+        presentationDuration: result.presentation_duration,
+        votingDuration: result.voting_duration,
+        durationRamp: result.duration_ramp ? JSON.parse(result.duration_ramp) as DurationRamp : undefined,
+        tieBreakPolicy: result.tie_break_policy as VoteResolutionPolicy,
+        noQuorumPolicy: result.no_quorum_policy as VoteResolutionPolicy,
+        minTurnout: result.min_turnout,
+        runoffReason: result.runoff_reason as VoteOutcomeReason | null,
+        runoffChoices: result.runoff_choices ? JSON.parse(result.runoff_choices) as VoteChoice[] : null,
+        runoffFirstPass: result.runoff_first_pass ? JSON.parse(result.runoff_first_pass) as VoteTally : null,
+        awaitingDecision: result.awaiting_decision as VoteOutcomeReason | null,
+        lastResolution: result.last_resolution ? JSON.parse(result.last_resolution) as VoteResolution : null,
+        roundStartedAt: result.round_started_at,
+        presenters: JSON.parse(result.presenters) as string[],
+        slidesPerTurn: result.slides_per_turn
       };
     }
     } catch (error) {
@@ -591,17 +1479,72 @@ export class GameSession extends DurableObject<Env> {
     }
   }
 
+  // Duration of a phase for the given round (defaults to the current slide), with the ramp applied
+  private getPhaseDuration(phase: 'presenting' | 'voting', round?: number): number {
+    if (!this.gameState) {
+      return phase === 'presenting' ? DEFAULT_PRESENTATION_DURATION : DEFAULT_VOTING_DURATION;
+    }
+
+    const base = phase === 'presenting' ? this.gameState.presentationDuration : this.gameState.votingDuration;
+    const ramp = this.gameState.durationRamp;
+    if (!ramp) return base;
+
+    const roundIndex = (round ?? this.gameState.slideCount) - 1;
+    const step = phase === 'presenting' ? ramp.presentationStep : ramp.votingStep;
+    const floor = (phase === 'presenting' ? ramp.minPresentation : ramp.minVoting) ?? MIN_PHASE_DURATION;
+
+    const ramped = base + step * roundIndex;
+    return Math.min(MAX_PHASE_DURATION, Math.max(floor, MIN_PHASE_DURATION, ramped));
+  }
+
+  // Count the stored ballots for a round
+  private tallyVotes(round: number, choices: VoteChoice[] = this.gameState!.choices): VoteTally {
+    const votes = this.emptyTally(choices);
+    const rows = this.sql.exec(
+      'SELECT choice, COUNT(*) as count FROM votes WHERE round = ? GROUP BY choice',
+      round
+    ).toArray() as { choice: VoteChoice; count: number }[];
+
+    for (const row of rows) {
+      if (choices.includes(row.choice)) {
+        votes[row.choice] = row.count;
+      }
+    }
+
+    return votes;
+  }
+
+  private emptyTally(choices: VoteChoice[]): VoteTally {
+    const votes: VoteTally = {};
+    for (const choice of choices) {
+      votes[choice] = 0;
+    }
+    return votes;
+  }
+
+  private countVotes(votes: VoteTally): number {
+    return Object.values(votes).reduce((total, count) => total + (count ?? 0), 0);
+  }
+
+  // Rebuild the voter ledger for a round from stored ballots
+  private loadVoters(round: number): Set<string> {
+    const rows = this.sql.exec('SELECT user_id FROM votes WHERE round = ?', round).toArray() as { user_id: string }[];
+    return new Set(rows.map(row => row.user_id));
+  }
+
   private startPresentationTimer(): void {
-    this.ctx.storage.setAlarm(Date.now() + 45000);
+    this.ctx.storage.setAlarm(this.gameState!.timerEnd);
   }
 
-  private async startVotingTimer(): Promise<void> {
+  private async startVotingTimer(duration: number = this.getPhaseDuration('voting')): Promise<void> {
+    // Start the round with an empty ballot box (clears leftovers if this round is re-run)
+    this.sql.exec('DELETE FROM votes WHERE round = ?', this.gameState!.slideCount);
     this.gameState!.votingOpen = true;
     this.gameState!.voters.clear();
-    this.gameState!.votes = { logical: 0, chaotic: 0 };
-    this.gameState!.timerEnd = Date.now() + 10000; // 10 seconds for voting
+    this.gameState!.votes = this.emptyTally(this.gameState!.runoffChoices ?? this.gameState!.choices);
+    this.gameState!.timerEnd = Date.now() + duration;
     await this.saveGameState(); // CRITICAL: Save state changes to database
-    this.ctx.storage.setAlarm(Date.now() + 10000);
+    this.ctx.storage.setAlarm(this.gameState!.timerEnd);
     this.broadcastGameState();
   }
 
@@ -610,17 +1553,142 @@ export class GameSession extends DurableObject<Env> {
 
     this.gameState.votingOpen = false;
 
-    // Determine winner
-    const winner = this.gameState.votes.logical > this.gameState.votes.chaotic ? 'logical' : 'chaotic';
+    // Tally from storage so ballots cast before a hibernation are counted
+    this.gameState.votes = this.tallyVotes(this.gameState.slideCount);
+
+    let resolution: VoteResolution | null;
+    if (this.gameState.awaitingDecision) {
+      // The presenter didn't decide before the prompt timed out
+      resolution = this.buildResolution(
+        this.gameState.awaitingDecision,
+        'random',
+        this.randomChoice(this.gameState.runoffChoices ?? this.gameState.choices),
+        'Presenter did not decide in time'
+      );
+      this.gameState.awaitingDecision = null;
+    } else {
+      resolution = await this.resolveVotes();
+    }
+
+    // A runoff round or presenter prompt is now open; the next alarm finishes the round
+    if (!resolution) return;
+
+    await this.advanceWithResolution(resolution);
+  }
+
+  // Decide the round from the tally, applying the session's tie-break and no-quorum policies.
+  // Returns null when the decision was deferred to a runoff round or the presenter.
+  private async resolveVotes(): Promise<VoteResolution | null> {
+    const state = this.gameState!;
+    const openChoices = state.runoffChoices ?? state.choices;
+    const quorate = this.countVotes(state.votes) >= state.minTurnout;
+
+    // Leaders = every open choice sharing the highest count
+    const topCount = Math.max(...openChoices.map(choice => state.votes[choice] ?? 0));
+    const leaders = openChoices.filter(choice => (state.votes[choice] ?? 0) === topCount);
+
+    // Clear winner (a runoff that produced one is still credited to the runoff)
+    if (quorate && leaders.length === 1) {
+      return state.runoffReason
+        ? this.buildResolution(state.runoffReason, 'runoff', leaders[0])
+        : this.buildResolution('majority', 'majority', leaders[0]);
+    }
+
+    // Ties are broken among the leaders; without quorum every open choice is in play
+    const candidates = quorate ? leaders : openChoices;
+
+    // A runoff already happened for this round and was inconclusive too
+    if (state.runoffReason) {
+      return this.buildResolution(state.runoffReason, 'random', this.randomChoice(candidates), 'Runoff was inconclusive');
+    }
+
+    const reason: VoteOutcomeReason = quorate ? 'tie' : 'noQuorum';
+    const policy = reason === 'tie' ? state.tieBreakPolicy : state.noQuorumPolicy;
+    console.log(`⚖️ Round ${state.slideCount} ${reason === 'tie' ? 'tied' : 'had no quorum'} (${JSON.stringify(state.votes)}), applying ${policy} policy`);
+
+    switch (policy) {
+      case 'repeatPrevious': {
+        const previous = state.lastResolution?.winner;
+        if (previous && candidates.includes(previous)) {
+          return this.buildResolution(reason, 'repeatPrevious', previous);
+        }
+        return this.buildResolution(reason, 'random', this.randomChoice(candidates), 'No previous winner to repeat');
+      }
+
+      case 'runoff':
+        // The runoff reuses this round's ballot box, so keep the tally that forced it for the history
+        state.runoffReason = reason;
+        state.runoffChoices = candidates;
+        state.runoffFirstPass = { ...state.votes };
+        await this.startVotingTimer(Math.max(MIN_PHASE_DURATION, Math.round(this.getPhaseDuration('voting') / 2)));
+        return null;
+
+      case 'presenter':
+        state.awaitingDecision = reason;
+        state.runoffChoices = candidates;
+        state.timerEnd = Date.now() + PRESENTER_DECISION_TIMEOUT;
+        await this.saveGameState();
+        await this.ctx.storage.setAlarm(state.timerEnd);
+        this.broadcastGameState();
+        return null;
+
+      case 'random':
+      default:
+        return this.buildResolution(reason, 'random', this.randomChoice(candidates));
+    }
+  }
+
+  private buildResolution(
+    reason: VoteOutcomeReason,
+    method: VoteResolution['method'],
+    winner: VoteChoice,
+    note?: string
+  ): VoteResolution {
+    const votes = { ...this.gameState!.votes };
+    return {
+      round: this.gameState!.slideCount,
+      votes,
+      totalVotes: this.countVotes(votes),
+      reason,
+      method,
+      winner,
+      note,
+      firstPassVotes: this.gameState!.runoffFirstPass ?? undefined,
+      resolvedAt: Date.now()
+    };
+  }
+
+  private randomChoice(candidates: VoteChoice[] = this.gameState!.choices): VoteChoice {
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  // Record how the round was decided, broadcast it, and move on to the winning slide
+  private async advanceWithResolution(resolution: VoteResolution): Promise<void> {
+    if (!this.gameState) return;
+
+    this.gameState.votingOpen = false;
+    this.gameState.runoffReason = null;
+    this.gameState.runoffChoices = null;
+    this.gameState.runoffFirstPass = null;
 
     // Get next slide options
-    const nextSlide = this.getNextSlide(winner);
+    const { slideId: nextSlide, fallback } = this.getNextSlide(resolution.winner);
 
-    if (!nextSlide || this.gameState.slideCount >= this.gameState.maxSlides) {
-      // Game finished
-      this.gameState.phase = 'finished';
-      this.broadcastGameState();
-      await this.saveGameState();
+    if (fallback) {
+      resolution.slideFallback = fallback;
+      console.log(`Round ${resolution.round}: no unused ${resolution.winner} neighbor for ${this.gameState.currentSlide}, fell back to ${fallback} (${nextSlide})`);
+    } else if (!nextSlide) {
+      console.log(`Round ${resolution.round}: no unused slides left in the deck, ending game`);
+    }
+
+    this.gameState.lastResolution = resolution;
+    this.broadcastVoteResult(resolution);
+
+    const finished = !nextSlide || this.gameState.slideCount >= this.gameState.maxSlides;
+    this.recordRound(resolution, finished ? null : nextSlide);
+
+    if (finished) {
+      await this.endPresentations();
       return;
     }
 
@@ -629,7 +1697,8 @@ export class GameSession extends DurableObject<Env> {
     this.gameState.usedSlides.add(nextSlide);
     this.gameState.slideCount++;
     this.gameState.phase = 'presenting';
-    this.gameState.timerEnd = Date.now() + 45000;
+    this.gameState.roundStartedAt = Date.now();
+    this.gameState.timerEnd = Date.now() + this.getPhaseDuration('presenting');
 
     await this.saveGameState();
     this.startPresentationTimer();
@@ -637,30 +1706,348 @@ export class GameSession extends DurableObject<Env> {
     this.broadcastSlideChange(nextSlide);
   }
 
-  private getNextSlide(choice: VoteChoice): string | null {
-    if (!this.gameState) return null;
+  private recordRound(resolution: VoteResolution, nextSlide: string | null): void {
+    this.sql.exec(`
+      INSERT OR REPLACE INTO rounds
+      (round, slide_id, votes, total_votes, winner, reason, method, note, next_slide, slide_fallback, first_pass_votes, started_at, resolved_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+      resolution.round,
+      this.gameState!.currentSlide,
+      JSON.stringify(resolution.votes),
+      resolution.totalVotes,
+      resolution.winner,
+      resolution.reason,
+      resolution.method,
+      resolution.note ?? null,
+      nextSlide,
+      resolution.slideFallback ?? null,
+      resolution.firstPassVotes ? JSON.stringify(resolution.firstPassVotes) : null,
+      this.gameState!.roundStartedAt,
+      resolution.resolvedAt
+    );
+  }
 
-    const result = this.sql.exec(
-      'SELECT * FROM adjacency WHERE slide_id = ?',
-      this.gameState.currentSlide
-    ).one() as SqlRow | null;
+  private buildHistory(): GameHistoryResponse {
+    const rows = this.sql.exec('SELECT * FROM rounds ORDER BY round').toArray() as SqlRow[];
+    const rounds: RoundSummary[] = rows.filter(isRoundRecord).map(row => ({
+      round: row.round,
+      slideId: row.slide_id,
+      votes: JSON.parse(row.votes) as VoteTally,
+      totalVotes: row.total_votes,
+      winner: row.winner as VoteChoice,
+      reason: row.reason as VoteOutcomeReason,
+      method: row.method as VoteResolution['method'],
+      note: row.note,
+      nextSlide: row.next_slide,
+      slideFallback: row.slide_fallback as SlideFallback | null,
+      firstPassVotes: row.first_pass_votes ? JSON.parse(row.first_pass_votes) as VoteTally : null,
+      startedAt: row.started_at,
+      resolvedAt: row.resolved_at
+    }));
+
+    // Slides in the order they were shown (includes unvoted ones: the final slide and tournament turn ends)
+    const path = this.gameState!.phase === 'waiting' ? [] : Array.from(this.gameState!.usedSlides);
 
-    if (!result || !isAdjacencyRecord(result)) return null;
+    return {
+      sessionId: this.gameState!.sessionId,
+      phase: this.gameState!.phase,
+      rounds,
+      path
+    };
+  }
+
+  private async finishGame(): Promise<void> {
+    if (!this.gameState) return;
+
+    this.gameState.phase = 'finished';
+    await this.saveGameState();
+    await this.scheduleCleanup(FINISHED_SESSION_TTL);
+    this.broadcastGameState();
+    this.broadcastHistory();
+    if (this.gameState.presenters.length > 0) {
+      this.broadcastLeaderboard();
+    } else {
+      this.broadcastRatingUpdate();
+    }
+  }
 
-    const options = choice === 'logical'
-      ? JSON.parse(result.logical_slides)
-      : JSON.parse(result.chaotic_slides);
+  // The last slide is done: single-presenter games open the rating phase, tournaments are already scored
+  private async endPresentations(): Promise<void> {
+    if (!this.gameState) return;
+
+    if (this.gameState.presenters.length > 0) {
+      await this.finishGame();
+      return;
+    }
+
+    this.gameState.phase = 'rating';
+    this.gameState.votingOpen = false;
+    this.gameState.timerEnd = Date.now() + RATING_DURATION;
+    await this.saveGameState();
+    this.ctx.storage.setAlarm(this.gameState.timerEnd);
+    this.broadcastGameState();
+  }
+
+  private buildRatingSummary(): RatingSummary {
+    const rows = this.sql.exec('SELECT score, tags FROM ratings').toArray() as { score: number; tags: string }[];
 
-    // Find first unused slide
-    for (const slideId of options) {
-      if (!this.gameState.usedSlides.has(slideId)) {
-        return slideId;
+    const distribution = new Array(MAX_SCORE - MIN_SCORE + 1).fill(0);
+    const tags: Partial<Record<RatingTag, number>> = {};
+    let total = 0;
+
+    for (const row of rows) {
+      distribution[row.score - MIN_SCORE]++;
+      total += row.score;
+      for (const tag of JSON.parse(row.tags) as RatingTag[]) {
+        tags[tag] = (tags[tag] ?? 0) + 1;
       }
     }
 
+    return {
+      ratings: rows.length,
+      averageScore: rows.length > 0 ? Math.round((total / rows.length) * 100) / 100 : null,
+      distribution,
+      tags
+    };
+  }
+
+  // 0-based index of the presenter whose turn covers the current slide
+  private getCurrentTurn(): number {
+    if (!this.gameState || this.gameState.slidesPerTurn <= 0) return 0;
+    return Math.floor((this.gameState.slideCount - 1) / this.gameState.slidesPerTurn);
+  }
+
+  private getCurrentPresenter(): string | null {
+    if (!this.gameState || this.gameState.presenters.length === 0) return null;
+    return this.gameState.presenters[this.getCurrentTurn()] ?? null;
+  }
+
+  // True when the current slide is the last one of a tournament turn
+  private isTurnComplete(): boolean {
+    return this.gameState!.presenters.length > 0 &&
+      this.gameState!.slideCount % this.gameState!.slidesPerTurn === 0;
+  }
+
+  private async startScoringTimer(): Promise<void> {
+    this.gameState!.phase = 'scoring';
+    this.gameState!.votingOpen = false;
+    this.gameState!.timerEnd = Date.now() + SCORING_DURATION;
+    await this.saveGameState();
+    this.ctx.storage.setAlarm(this.gameState!.timerEnd);
+    this.broadcastGameState();
+  }
+
+  // Close scoring and hand over to the next presenter on a fresh slide
+  private async endTurn(): Promise<void> {
+    if (!this.gameState) return;
+
+    const turn = this.getCurrentTurn();
+    if (turn >= this.gameState.presenters.length - 1) {
+      console.log('🏁 Tournament complete');
+      await this.finishGame();
+      return;
+    }
+
+    // Each turn starts somewhere new in the deck, never on a slide already shown
+    const nextSlide = this.pickRandomUnusedSlide();
+    if (!nextSlide) {
+      console.log('🏁 Deck exhausted before every presenter had a turn');
+      await this.finishGame();
+      return;
+    }
+
+    this.broadcastLeaderboard();
+
+    this.gameState.currentSlide = nextSlide;
+    this.gameState.usedSlides.add(nextSlide);
+    this.gameState.slideCount++;
+    this.gameState.phase = 'presenting';
+    this.gameState.roundStartedAt = Date.now();
+    this.gameState.timerEnd = Date.now() + this.getPhaseDuration('presenting');
+
+    console.log(`🎤 ${this.getCurrentPresenter()} is up (turn ${turn + 2}/${this.gameState.presenters.length})`);
+
+    await this.saveGameState();
+    this.startPresentationTimer();
+    this.broadcastGameState();
+    this.broadcastSlideChange(nextSlide);
+  }
+
+  // Standings so far, best average first (presenters nobody scored yet come last)
+  private buildLeaderboard(): LeaderboardEntry[] {
+    if (!this.gameState || this.gameState.presenters.length === 0) return [];
+
+    const rows = this.sql.exec(
+      'SELECT turn, COUNT(*) as count, SUM(score) as total FROM scores GROUP BY turn'
+    ).toArray() as { turn: number; count: number; total: number }[];
+    const totals = new Map(rows.map(row => [row.turn, row]));
+
+    const entries: LeaderboardEntry[] = this.gameState.presenters.map((presenter, turn) => {
+      const row = totals.get(turn);
+      return {
+        presenter,
+        turn,
+        scores: row?.count ?? 0,
+        totalScore: row?.total ?? 0,
+        averageScore: row ? Math.round((row.total / row.count) * 100) / 100 : null,
+        rank: null
+      };
+    });
+
+    entries.sort((a, b) =>
+      (b.averageScore ?? -1) - (a.averageScore ?? -1) || b.scores - a.scores || a.turn - b.turn
+    );
+
+    // Presenters with the same average and score count share a rank
+    entries.forEach((entry, index) => {
+      if (entry.averageScore === null) return;
+      const previous = entries[index - 1];
+      entry.rank = previous && previous.averageScore === entry.averageScore && previous.scores === entry.scores
+        ? previous.rank
+        : index + 1;
+    });
+
+    return entries;
+  }
+
+  // Back to the pre-game state: no alarm, no ballots, no used slides
+  private async clearGame(): Promise<void> {
+    if (!this.gameState) return;
+
+    await this.scheduleCleanup(SESSION_IDLE_TTL); // Replaces any phase timer
+    this.sql.exec('DELETE FROM votes');
+    this.sql.exec('DELETE FROM rounds');
+    this.sql.exec('DELETE FROM scores');
+    this.sql.exec('DELETE FROM ratings');
+
+    this.gameState.phase = 'waiting';
+    this.gameState.currentSlide = ''; // startGame picks the loaded deck's opening slide
+    this.gameState.usedSlides = new Set();
+    this.gameState.slideCount = 1;
+    this.gameState.votes = this.emptyTally(this.gameState.choices);
+    this.gameState.voters = new Set();
+    this.gameState.votingOpen = false;
+    this.gameState.timerEnd = 0;
+    this.gameState.paused = false;
+    this.gameState.pausedRemaining = 0;
+    this.gameState.runoffReason = null;
+    this.gameState.runoffChoices = null;
+    this.gameState.runoffFirstPass = null;
+    this.gameState.awaitingDecision = null;
+    this.gameState.lastResolution = null;
+    this.gameState.roundStartedAt = 0;
+
+    await this.saveGameState();
+  }
+
+  // Next slide for the winning choice; `fallback` says how far we had to look when the neighbors were used up
+  private getNextSlide(choice: VoteChoice): { slideId: string | null; fallback: SlideFallback | null } {
+    if (!this.gameState) return { slideId: null, fallback: null };
+
+    switch (choice) {
+      case 'wildcard':
+        return { slideId: this.pickRandomUnusedSlide(), fallback: null };
+
+      case 'callback': {
+        const callback = this.pickCallbackSlide();
+        if (callback) return { slideId: callback, fallback: null };
+
+        // Nothing earlier left to call back to
+        const anyUnused = this.pickRandomUnusedSlide();
+        return { slideId: anyUnused, fallback: anyUnused ? 'anyUnused' : null };
+      }
+
+      default: {
+        const neighbors = this.getNeighbors(this.gameState.currentSlide);
+        const neighbor = neighbors ? this.firstUnused(neighbors[choice] ?? []) : null;
+        if (neighbor) return { slideId: neighbor, fallback: null };
+
+        // Next-best unused slide in the same direction from the full ranking
+        const ranked = neighbors?.ranking ? this.firstUnused(this.orderRanking(neighbors.ranking, choice)) : null;
+        if (ranked) return { slideId: ranked, fallback: 'ranking' };
+
+        const anyUnused = this.pickRandomUnusedSlide();
+        return { slideId: anyUnused, fallback: anyUnused ? 'anyUnused' : null };
+      }
+    }
+  }
+
+  // Order a most-to-least-similar ranking so the best match for the direction comes first
+  private orderRanking(ranking: string[], direction: AdjacencyDirection): string[] {
+    switch (direction) {
+      case 'logical':
+        return ranking;
+      case 'chaotic':
+        return [...ranking].reverse();
+      case 'moderate': {
+        const middle = (ranking.length - 1) / 2;
+        return ranking
+          .map((slideId, index) => ({ slideId, distance: Math.abs(index - middle) }))
+          .sort((a, b) => a.distance - b.distance)
+          .map(entry => entry.slideId);
+      }
+    }
+  }
+
+  // A slide similar to one shown earlier in the game (not the current one)
+  private pickCallbackSlide(): string | null {
+    const earlierSlides = Array.from(this.gameState!.usedSlides)
+      .filter(slideId => slideId !== this.gameState!.currentSlide);
+
+    // Visit earlier slides in random order so callbacks don't always target the opener
+    for (const slideId of this.shuffle(earlierSlides)) {
+      const neighbors = this.getNeighbors(slideId);
+      const candidate = neighbors ? this.firstUnused(neighbors.logical) : null;
+      if (candidate) return candidate;
+    }
+
     return null;
   }
 
+  private pickRandomUnusedSlide(): string | null {
+    const rows = this.sql.exec('SELECT slide_id FROM adjacency').toArray() as { slide_id: string }[];
+    const unused = rows.map(row => row.slide_id).filter(slideId => !this.gameState!.usedSlides.has(slideId));
+    return unused.length > 0 ? unused[Math.floor(Math.random() * unused.length)] : null;
+  }
+
+  private firstUnused(slideIds: string[]): string | null {
+    return slideIds.find(slideId => !this.gameState!.usedSlides.has(slideId)) ?? null;
+  }
+
+  private getNeighbors(slideId: string): SlideNeighbors | null {
+    const result = this.sql.exec('SELECT * FROM adjacency WHERE slide_id = ?', slideId).toArray()[0] as SqlRow | undefined;
+    if (!result || !isAdjacencyRecord(result)) return null;
+    return JSON.parse(result.neighbors) as SlideNeighbors;
+  }
+
+  private getOpeningSlide(): string {
+    const first = this.sql.exec('SELECT slide_id FROM adjacency ORDER BY rowid LIMIT 1').toArray()[0] as { slide_id: string } | undefined;
+    return first?.slide_id ?? '';
+  }
+
+  // True when every slide in the loaded deck has a neighbor list for the direction
+  private adjacencySupports(direction: AdjacencyDirection): boolean {
+    const rows = this.sql.exec('SELECT neighbors FROM adjacency').toArray() as { neighbors: string }[];
+    return rows.every(row => Array.isArray((JSON.parse(row.neighbors) as SlideNeighbors)[direction]));
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  // Time left in the current phase (frozen while paused)
+  private getTimeRemaining(): number {
+    if (!this.gameState) return 0;
+    if (this.gameState.paused) return this.gameState.pausedRemaining;
+    return Math.max(0, this.gameState.timerEnd - Date.now());
+  }
+
   private getPublicGameState() {
     if (!this.gameState) return null;
 
@@ -668,11 +2055,28 @@ export class GameSession extends DurableObject<Env> {
       sessionId: this.gameState.sessionId,
       currentSlide: this.gameState.currentSlide,
       phase: this.gameState.phase,
+      choices: this.gameState.choices,
       votes: this.gameState.votes,
-      timeRemaining: Math.max(0, this.gameState.timerEnd - Date.now()),
+      timeRemaining: this.getTimeRemaining(),
       slideCount: this.gameState.slideCount,
       maxSlides: this.gameState.maxSlides,
-      votingOpen: this.gameState.votingOpen
+      votingOpen: this.gameState.votingOpen,
+      paused: this.gameState.paused,
+      presentationDuration: this.getPhaseDuration('presenting'),
+      votingDuration: this.getPhaseDuration('voting'),
+      durationRamp: this.gameState.durationRamp ?? null,
+      tieBreakPolicy: this.gameState.tieBreakPolicy,
+      noQuorumPolicy: this.gameState.noQuorumPolicy,
+      minTurnout: this.gameState.minTurnout,
+      runoff: this.gameState.runoffReason !== null,
+      runoffChoices: this.gameState.runoffChoices,
+      awaitingDecision: this.gameState.awaitingDecision,
+      lastResolution: this.gameState.lastResolution,
+      presenters: this.gameState.presenters,
+      currentPresenter: this.getCurrentPresenter(),
+      slidesPerTurn: this.gameState.slidesPerTurn,
+      scoringDuration: SCORING_DURATION,
+      ratingDuration: RATING_DURATION
     };
   }
 
@@ -692,6 +2096,57 @@ export class GameSession extends DurableObject<Env> {
     });
   }
 
+  private broadcastVoteResult(resolution: VoteResolution): void {
+    this.broadcast({
+      type: 'voteResult',
+      data: resolution,
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastHistory(): void {
+    if (!this.gameState) return;
+
+    this.broadcast({
+      type: 'history',
+      data: this.buildHistory(),
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastLeaderboard(): void {
+    this.broadcast({
+      type: 'leaderboard',
+      data: { leaderboard: this.buildLeaderboard() },
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastRatingUpdate(): void {
+    this.broadcast({
+      type: 'ratingUpdate',
+      data: { rating: this.buildRatingSummary() },
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastTimerUpdate(action: TimerAction): void {
+    if (!this.gameState) return;
+
+    const update: TimerUpdate = {
+      action,
+      phase: this.gameState.phase,
+      paused: this.gameState.paused,
+      timeRemaining: this.getTimeRemaining()
+    };
+
+    this.broadcast({
+      type: 'timerUpdate',
+      data: update,
+      timestamp: Date.now()
+    });
+  }
+
   private broadcastSlideChange(slideId: string): void {
     this.broadcast({
       type: 'slideChange',
@@ -717,6 +2172,13 @@ export class GameSession extends DurableObject<Env> {
     });
   }
 
+  private jsonResponse(body: object, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
   private sendToSocket(socket: WebSocket, message: WebSocketMessage): void {
     try {
       socket.send(JSON.stringify(message));
@@ -1,89 +1,242 @@
 import {
   Env,
-  VoteRequest,
   StartGameRequest,
-  CreateDeckRequest,
+  GameOptions,
+  FieldError,
+  ValidationErrorResponse,
   CreateDeckResponse,
   DeckMetadata,
+  DeckListEntry,
+  DeckVisibility,
+  UpdateVisibilityResponse,
   ProcessDeckRequest,
   ProcessDeckResponse,
   ProcessingStatus,
+  ArchiveFileReport,
+  UploadArchiveResponse,
+  UploadSlideResponse,
+  SlideManifestResponse,
+  JoinResponse,
+  RateLimit,
+  CreateOrganizationResponse,
+  CreateApiKeyResponse,
 } from './types/index';
 import { GameSession } from './game-session';
-import { processDeck } from './ai-processor';
+import { RateLimiter, parseRateLimit } from './rate-limiter';
+import { DeckProcessor } from './deck-processor';
+import { issueVoterToken, verifyVoterToken } from './voter-token';
+import { readZipEntries, readZipEntry, naturalCompare } from './zip-archive';
+import { getSlideManifest, saveSlideManifest, upsertSlide, nextSlideId, deleteSlideData } from './slide-manifest';
+import {
+  authenticateApiKey,
+  isAdminRequest,
+  createOrganization,
+  getOrganization,
+  issueApiKey,
+  deckKey,
+  deckListPrefix,
+  slideObjectKey,
+  setDeckVisibility,
+  removeDeckVisibility,
+  listPublicDecks,
+  getSharedDeck,
+  resolveVisibleDeck,
+  toPublicMetadata,
+} from './tenancy';
+import {
+  ValidationResult,
+  validateVoteRequest,
+  validateScoreRequest,
+  validateRatingRequest,
+  validateDecideRequest,
+  validateExtendTimerRequest,
+  validateStartGameRequest,
+  validateCreateDeckRequest,
+  validateUpdateVisibilityRequest,
+  validateUploadSlideForm,
+  validateUploadArchiveForm,
+  validateReplaceSlideForm,
+  validateReorderSlidesRequest,
+  validateCreateOrganizationRequest,
+  validateCreateApiKeyRequest,
+} from './types/validation';
+
+// Export the Durable Object classes for Cloudflare
+export { GameSession, RateLimiter, DeckProcessor };
+
+// Room codes avoid look-alike characters (0/O, 1/I/L)
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+const MAX_ROOM_CODE_ATTEMPTS = 5;
+
+// Header and cookie carrying the secret minted for a session's host
+const HOST_SECRET_HEADER = 'X-Host-Secret';
+const HOST_SECRET_COOKIE = 'host_secret';
+
+// Actions that drive the game; only the session's host may call them
+const HOST_ACTIONS = new Set([
+  'start', 'end', 'reset', 'replay', 'decide',
+  'pause', 'resume', 'skip', 'extend', 'close-voting'
+]);
+
+// Header and cookie carrying the signed identity issued by /join
+const VOTER_TOKEN_HEADER = 'X-Voter-Token';
+const VOTER_TOKEN_COOKIE = 'voter_token';
+
+// Actions cast on behalf of an audience member; they need a valid voter token
+const VOTER_ACTIONS = new Set(['vote', 'score', 'rate']);
+
+// Used when wrangler.toml doesn't set the matching RATE_LIMIT_* var.
+// Per-IP limits are generous because a whole audience may share one venue IP.
+const DEFAULT_CREATE_SESSION_LIMIT: RateLimit = { capacity: 5, periodSeconds: 60 };
+const DEFAULT_JOIN_LIMIT: RateLimit = { capacity: 100, periodSeconds: 60 };
+const DEFAULT_VOTE_IP_LIMIT: RateLimit = { capacity: 300, periodSeconds: 10 };
+const DEFAULT_VOTE_LIMIT: RateLimit = { capacity: 5, periodSeconds: 10 };
+
+// Slide images accepted from upload-archive ZIPs, by extension
+const ARCHIVE_IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+const MAX_ARCHIVE_ENTRIES = 500;
+// The ZIP itself is held in memory while it unpacks, so it is refused before the body is read (Workers get 128MB)
+const MAX_ARCHIVE_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Unpacked size caps; entries are inflated with a running byte count, since the sizes a ZIP declares can lie
+const MAX_ARCHIVE_SLIDE_BYTES = 20 * 1024 * 1024;  // Per image
+const MAX_ARCHIVE_TOTAL_BYTES = 100 * 1024 * 1024; // Per archive
 
-// Export the Durable Object class for Cloudflare
-export { GameSession };
+// Adding, replacing or deleting slides leaves the adjacency list stale until the deck is processed again
+const NEEDS_PROCESSING: Partial<DeckMetadata> = { status: 'pending' };
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
-    const { pathname, searchParams } = url;
-
-    // Handle CORS preflight requests
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 204,
-        headers: getCorsHeaders(),
-      });
-    }
+    const response = await routeRequest(request, env, ctx);
+    return applyResponseHeaders(response, request, env);
+  },
+};
 
-    try {
-      // Route static files from ASSETS
-      if (pathname === '/' || pathname === '/vote') {
-        return await serveStaticAsset('/vote.html', env.ASSETS);
-      }
+async function routeRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  const { pathname, searchParams } = url;
 
-      if (pathname === '/display') {
-        return await serveStaticAsset('/display.html', env.ASSETS);
-      }
+  // Handle CORS preflight requests
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(),
+    });
+  }
 
-      if (pathname === '/admin') {
-        return await serveStaticAsset('/admin.html', env.ASSETS);
-      }
+  try {
+    // Route static files from ASSETS
+    if (pathname === '/' || pathname === '/vote') {
+      return await serveStaticAsset('/vote.html', env.ASSETS);
+    }
 
-      // Serve other static assets (CSS, JS, etc.)
-      if (pathname.startsWith('/css/') || pathname.startsWith('/js/')) {
-        return await serveStaticAsset(pathname, env.ASSETS);
-      }
+    if (pathname === '/display') {
+      return await serveStaticAsset('/display.html', env.ASSETS);
+    }
 
-      // Handle slide images from R2
-      const slideMatch = pathname.match(/^\/slides\/(.+)$/);
-      if (slideMatch) {
-        return await serveSlideImage(slideMatch[1], env.SLIDES);
-      }
+    if (pathname === '/admin') {
+      return await serveStaticAsset('/admin.html', env.ASSETS);
+    }
 
-      // Handle deck management API routes
-      if (pathname.startsWith('/api/decks')) {
-        return await handleDeckAPI(pathname, request, env, ctx);
-      }
+    // Serve other static assets (CSS, JS, etc.)
+    if (pathname.startsWith('/css/') || pathname.startsWith('/js/')) {
+      return await serveStaticAsset(pathname, env.ASSETS);
+    }
 
-      // Handle API routes - all require a session ID
-      const sessionMatch = pathname.match(/^\/session\/([^\/]+)\/(.+)$/);
-      if (sessionMatch) {
-        const [, sessionId, action] = sessionMatch;
-        return await handleSessionRequest(sessionId, action, request, env);
-      }
+    // Handle slide images from R2 (orgs/{orgId}/decks/{deckId}/{slideId}), for viewers allowed to see the deck
+    const slideMatch = pathname.match(/^\/slides\/orgs\/([^\/]+)\/decks\/([^\/]+)\/([^\/]+)$/);
+    if (slideMatch) {
+      return await serveDeckSlide(slideMatch[1], slideMatch[2], slideMatch[3], request, env);
+    }
 
-      // Handle session creation
-      if (pathname === '/create-session' && request.method === 'POST') {
-        return await createGameSession(request, env);
-      }
+    // Handle organization admin routes
+    if (pathname.startsWith('/api/orgs')) {
+      return await handleOrgAPI(pathname, request, env);
+    }
 
-      return new Response('Not Found', {
-        status: 404,
-        headers: getCorsHeaders()
-      });
+    // Handle deck management API routes
+    if (pathname.startsWith('/api/decks')) {
+      return await handleDeckAPI(pathname, request, env, ctx);
+    }
 
-    } catch (error) {
-      console.error('Worker error:', error);
-      return new Response('Internal Server Error', {
-        status: 500,
-        headers: getCorsHeaders()
-      });
+    // Handle API routes - all require a session ID
+    const sessionMatch = pathname.match(/^\/session\/([^\/]+)\/(.+)$/);
+    if (sessionMatch) {
+      const [, sessionId, action] = sessionMatch;
+      return await handleSessionRequest(sessionId, action, request, env);
     }
-  },
-};
+
+    // Handle session creation
+    if (pathname === '/create-session' && request.method === 'POST') {
+      return await createGameSession(request, env);
+    }
+
+    return new Response('Not Found', {
+      status: 404,
+      headers: getCorsHeaders()
+    });
+
+  } catch (error) {
+    console.error('Worker error:', error);
+    return new Response('Internal Server Error', {
+      status: 500,
+      headers: getCorsHeaders()
+    });
+  }
+}
+
+// Add the CORS origin and security headers to every response, including those built by the Durable Object
+function applyResponseHeaders(response: Response, request: Request, env: Env): Response {
+  // WebSocket upgrades must be passed through untouched
+  if (response.webSocket) return response;
+
+  const headers = new Headers(response.headers);
+
+  // Only echo origins from the ALLOWED_ORIGINS allow-list; same-origin requests need no CORS headers
+  const origin = request.headers.get('Origin');
+  headers.delete('Access-Control-Allow-Origin');
+  if (origin && isAllowedOrigin(origin, env)) {
+    headers.set('Access-Control-Allow-Origin', origin);
+  }
+  headers.append('Vary', 'Origin');
+
+  const isHtml = (headers.get('Content-Type') || '').includes('text/html');
+  for (const [name, value] of Object.entries(getSecurityHeaders(isHtml))) {
+    headers.set(name, value);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+// ALLOWED_ORIGINS is a comma-separated list of exact origins, e.g. "https://decks.example.com,http://localhost:8787"
+function isAllowedOrigin(origin: string, env: Env): boolean {
+  return (env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(allowed => allowed.trim())
+    .some(allowed => allowed === origin);
+}
+
+function getSecurityHeaders(isHtml: boolean): Record<string, string> {
+  return {
+    // The pages only load their own scripts, styles and slide images and talk back to this Worker.
+    // Inline styles are used throughout the pages; API responses should never render anything.
+    'Content-Security-Policy': isHtml ?
+      "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob:; " +
+      "connect-src 'self'; object-src 'none'; base-uri 'self'; form-action 'self'; frame-ancestors 'none'" :
+      "default-src 'none'; frame-ancestors 'none'",
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+  };
+}
 
 async function handleSessionRequest(
   sessionId: string,
@@ -95,7 +248,70 @@ async function handleSessionRequest(
   const id = env.GAME_SESSION.idFromName(sessionId);
   const stub = env.GAME_SESSION.get(id) as DurableObjectStub<GameSession>;
 
+  if (HOST_ACTIONS.has(action) && !(await stub.isHost(getHostSecret(request)))) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Only the session host can control this game'
+    }), {
+      status: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCorsHeaders()
+      }
+    });
+  }
+
+  // The voter's identity comes from their signed token, never from the request body
+  const voterId = VOTER_ACTIONS.has(action) ? await getVoterId(sessionId, stub, request, env) : null;
+  if (VOTER_ACTIONS.has(action) && !voterId) {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Missing or invalid voter token - please rejoin the session'
+    }), {
+      status: 401,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCorsHeaders()
+      }
+    });
+  }
+
+  if (voterId) {
+    const limited =
+      await checkRateLimit(env, `voter:${sessionId}:${voterId}`, parseRateLimit(env.RATE_LIMIT_VOTE, DEFAULT_VOTE_LIMIT)) ||
+      await checkRateLimit(env, `vote-ip:${sessionId}:${getClientIp(request)}`, parseRateLimit(env.RATE_LIMIT_VOTE_IP, DEFAULT_VOTE_IP_LIMIT));
+    if (limited) return limited;
+  }
+
+  // Slides of the deck the room is playing; the deck's visibility was checked when the game loaded it
+  const slideMatch = action.match(/^slides\/([^\/]+)$/);
+  if (slideMatch) {
+    if (request.method !== 'GET') {
+      return new Response('Method not allowed', {
+        status: 405,
+        headers: getCorsHeaders()
+      });
+    }
+    const slide = await stub.getSlideImage(decodeURIComponent(slideMatch[1]));
+    if (!slide) {
+      return new Response('Image not found', {
+        status: 404,
+        headers: getCorsHeaders()
+      });
+    }
+    return await serveSlideImage(slide.key, slide.visibility, env.SLIDES);
+  }
+
   switch (action) {
+    case 'join':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      return await joinSession(sessionId, stub, request, env);
+
     case 'vote':
       if (request.method !== 'POST') {
         return new Response('Method not allowed', {
@@ -103,8 +319,9 @@ async function handleSessionRequest(
           headers: getCorsHeaders()
         });
       }
-      const voteData: VoteRequest = await request.json();
-      return await stub.vote(voteData.userId, voteData.choice);
+      const voteData = await parseBody(request, validateVoteRequest);
+      if (!voteData.ok) return voteData.response;
+      return await stub.vote(voterId!, voteData.value.choice);
 
     case 'status':
       if (request.method !== 'GET') {
@@ -115,6 +332,15 @@ async function handleSessionRequest(
       }
       return await stub.getStatus();
 
+    case 'history':
+      if (request.method !== 'GET') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      return await stub.getHistory();
+
     case 'ws':
       // WebSocket upgrade - use fetch() to avoid RPC serialization issues
       return await stub.fetch(request);
@@ -126,8 +352,93 @@ async function handleSessionRequest(
           headers: getCorsHeaders()
         });
       }
-      const startData: StartGameRequest = await request.json();
-      return await stub.startGame(startData.deckId, startData.maxSlides);
+      const startData = await parseBody(request, validateStartGameRequest);
+      if (!startData.ok) return startData.response;
+      return await stub.startGame(
+        startData.value.deckId,
+        startData.value.maxSlides,
+        getGameOptions(startData.value),
+        startData.value.shareToken
+      );
+
+    case 'end':
+    case 'reset':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      return action === 'end' ? await stub.endGame() : await stub.resetGame();
+
+    case 'replay':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      const replayData = await parseBody(request, validateStartGameRequest);
+      if (!replayData.ok) return replayData.response;
+      return await stub.replayGame(
+        replayData.value.deckId,
+        replayData.value.maxSlides,
+        getGameOptions(replayData.value),
+        replayData.value.shareToken
+      );
+
+    case 'score':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      const scoreData = await parseBody(request, validateScoreRequest);
+      if (!scoreData.ok) return scoreData.response;
+      return await stub.score(voterId!, scoreData.value.score);
+
+    case 'rate':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      const ratingData = await parseBody(request, validateRatingRequest);
+      if (!ratingData.ok) return ratingData.response;
+      return await stub.rate(voterId!, ratingData.value.score, ratingData.value.tags);
+
+    case 'decide':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      const decideData = await parseBody(request, validateDecideRequest);
+      if (!decideData.ok) return decideData.response;
+      return await stub.decide(decideData.value.choice);
+
+    case 'pause':
+    case 'resume':
+    case 'skip':
+    case 'extend':
+    case 'close-voting':
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: getCorsHeaders()
+        });
+      }
+      if (action === 'pause') return await stub.pause();
+      if (action === 'resume') return await stub.resume();
+      if (action === 'skip') return await stub.skip();
+      if (action === 'close-voting') return await stub.closeVoting();
+      // Body is optional: an empty POST extends by the default amount
+      const extendData = await parseBody(request, validateExtendTimerRequest, true);
+      if (!extendData.ok) return extendData.response;
+      return await stub.extend(extendData.value.duration);
 
     default:
       return new Response('Unknown action', {
@@ -137,33 +448,265 @@ async function handleSessionRequest(
   }
 }
 
+// Parse and validate a JSON body; malformed JSON and invalid fields both become a 400 with field-level errors
+async function parseBody<T>(
+  request: Request,
+  validate: (body: unknown) => ValidationResult<T>,
+  allowEmpty: boolean = false
+): Promise<{ ok: true; value: T } | { ok: false; response: Response }> {
+  const text = await request.text();
+
+  let body: unknown = {};
+  if (text.trim() || !allowEmpty) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return { ok: false, response: validationErrorResponse('Malformed JSON body', [{ field: 'body', message: 'is not valid JSON' }]) };
+    }
+  }
+
+  const result = validate(body);
+  if (!result.ok) {
+    return { ok: false, response: validationErrorResponse('Invalid request body', result.errors) };
+  }
+  return result;
+}
+
+function validationErrorResponse(error: string, errors: FieldError[]): Response {
+  const body: ValidationErrorResponse = { success: false, error, errors };
+  return new Response(JSON.stringify(body), {
+    status: 400,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders()
+    }
+  });
+}
+
+function getGameOptions(startData: StartGameRequest): GameOptions {
+  return {
+    presentationDuration: startData.presentationDuration,
+    votingDuration: startData.votingDuration,
+    durationRamp: startData.durationRamp,
+    tieBreakPolicy: startData.tieBreakPolicy,
+    noQuorumPolicy: startData.noQuorumPolicy,
+    minTurnout: startData.minTurnout,
+    choices: startData.choices,
+    presenters: startData.presenters,
+    slidesPerTurn: startData.slidesPerTurn
+  };
+}
+
 async function createGameSession(request: Request, env: Env): Promise<Response> {
-  // Generate a random 6-character room code
-  const roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const limited = await checkRateLimit(
+    env,
+    `create-session:${getClientIp(request)}`,
+    parseRateLimit(env.RATE_LIMIT_CREATE_SESSION, DEFAULT_CREATE_SESSION_LIMIT)
+  );
+  if (limited) return limited;
+
+  // An API key is optional: it lets the session play its organization's private decks. Without one it can still play
+  // the built-in demo deck, public decks and unlisted decks started with their share token
+  const orgId = await authenticateApiKey(request, env);
+  if (request.headers.has('Authorization') && !orgId) {
+    return unauthorizedResponse();
+  }
 
-  // Get the Durable Object instance using the room code as the name
-  const id = env.GAME_SESSION.idFromName(roomCode);
-  const stub = env.GAME_SESSION.get(id) as DurableObjectStub<GameSession>;
+  const hostSecret = generateHostSecret();
+
+  for (let attempt = 0; attempt < MAX_ROOM_CODE_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+
+    // Get the Durable Object instance using the room code as the name
+    const id = env.GAME_SESSION.idFromName(roomCode);
+    const stub = env.GAME_SESSION.get(id) as DurableObjectStub<GameSession>;
+
+    // Initialize the session with room code, the creator's host secret and organization, unless the room is still in use
+    if (!(await stub.claimRoomCode(roomCode, hostSecret, orgId))) {
+      console.warn(`Room code ${roomCode} is still active, trying another`);
+      continue;
+    }
+
+    return new Response(JSON.stringify({
+      sessionId: roomCode,
+      hostSecret,
+      success: true
+    }), {
+      headers: {
+        'Content-Type': 'application/json',
+        // Scoped to this room so a browser can host several sessions
+        'Set-Cookie': `${HOST_SECRET_COOKIE}=${hostSecret}; Path=/session/${roomCode}; HttpOnly; Secure; SameSite=Strict`,
+        ...getCorsHeaders()
+      }
+    });
+  }
+
+  return new Response(JSON.stringify({
+    success: false,
+    error: 'Could not allocate a room code, please try again'
+  }), {
+    status: 503,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getCorsHeaders()
+    }
+  });
+}
+
+// Uniform pick from ROOM_CODE_ALPHABET (bytes past the last full multiple are rejected to avoid modulo bias)
+function generateRoomCode(): string {
+  const limit = 256 - (256 % ROOM_CODE_ALPHABET.length);
+  let code = '';
+
+  while (code.length < ROOM_CODE_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH * 2))) {
+      if (byte < limit && code.length < ROOM_CODE_LENGTH) {
+        code += ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length];
+      }
+    }
+  }
+  return code;
+}
+
+// Issue a voter token, or hand back the caller's existing one so a rejoin keeps the same identity
+async function joinSession(
+  sessionId: string,
+  stub: DurableObjectStub<GameSession>,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!env.VOTER_TOKEN_SECRET) {
+    console.error('VOTER_TOKEN_SECRET is not configured');
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Voting is not configured on this server'
+    }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCorsHeaders()
+      }
+    });
+  }
 
-  // Initialize the session with room code
-  await stub.initialize(roomCode);
+  const limited = await checkRateLimit(
+    env,
+    `join:${sessionId}:${getClientIp(request)}`,
+    parseRateLimit(env.RATE_LIMIT_JOIN, DEFAULT_JOIN_LIMIT)
+  );
+  if (limited) return limited;
+
+  const existingToken = getVoterToken(request);
+  const existingId = await getVoterId(sessionId, stub, request, env);
+  const voter = existingId && existingToken ?
+    { userId: existingId, token: existingToken } :
+    await issueVoterToken(env.VOTER_TOKEN_SECRET, sessionId, await stub.getGameNonce());
+
+  const response: JoinResponse = {
+    success: true,
+    ...voter
+  };
+
+  return new Response(JSON.stringify(response), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Set-Cookie': `${VOTER_TOKEN_COOKIE}=${voter.token}; Path=/session/${sessionId}; HttpOnly; Secure; SameSite=Strict`,
+      ...getCorsHeaders()
+    }
+  });
+}
+
+function getVoterToken(request: Request): string | null {
+  return request.headers.get(VOTER_TOKEN_HEADER) || getCookie(request, VOTER_TOKEN_COOKIE);
+}
+
+async function getVoterId(
+  sessionId: string,
+  stub: DurableObjectStub<GameSession>,
+  request: Request,
+  env: Env
+): Promise<string | null> {
+  const token = getVoterToken(request);
+  if (!env.VOTER_TOKEN_SECRET || !token) return null;
+  return await verifyVoterToken(env.VOTER_TOKEN_SECRET, sessionId, await stub.getGameNonce(), token);
+}
+
+// Take a token from the bucket for this key; returns a 429 response once it is empty
+async function checkRateLimit(env: Env, key: string, limit: RateLimit): Promise<Response | null> {
+  const id = env.RATE_LIMITER.idFromName(key);
+  const limiter = env.RATE_LIMITER.get(id) as DurableObjectStub<RateLimiter>;
+  const { allowed, retryAfter } = await limiter.consume(limit);
+
+  if (allowed) return null;
 
   return new Response(JSON.stringify({
-    sessionId: roomCode,
-    success: true
+    success: false,
+    error: 'Too many requests - please slow down',
+    retryAfter
   }), {
+    status: 429,
     headers: {
       'Content-Type': 'application/json',
+      'Retry-After': String(retryAfter),
       ...getCorsHeaders()
     }
   });
 }
 
-async function serveSlideImage(filename: string, slidesBucket: R2Bucket): Promise<Response> {
+function getClientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') || 'unknown';
+}
+
+function generateHostSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Host secret from the X-Host-Secret header, falling back to the session cookie
+function getHostSecret(request: Request): string | null {
+  return request.headers.get(HOST_SECRET_HEADER) || getCookie(request, HOST_SECRET_COOKIE);
+}
+
+function getCookie(request: Request, cookieName: string): string | null {
+  const cookies = request.headers.get('Cookie') || '';
+  for (const cookie of cookies.split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === cookieName) {
+      return value.join('=');
+    }
+  }
+  return null;
+}
+
+async function serveDeckSlide(
+  orgId: string,
+  deckId: string,
+  slideId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  // Owners pass their API key, unlisted decks the share token (?share=); public decks need neither
+  const viewerOrgId = await authenticateApiKey(request, env);
+  const shareToken = new URL(request.url).searchParams.get('share') ?? undefined;
+  const metadata = await resolveVisibleDeck(deckId, viewerOrgId, shareToken, env);
+
+  // Same 404 as a missing image, so private decks don't leak their existence
+  if (!metadata || metadata.orgId !== orgId) {
+    return new Response('Image not found', {
+      status: 404,
+      headers: getCorsHeaders()
+    });
+  }
+
+  return await serveSlideImage(slideObjectKey(orgId, deckId, decodeURIComponent(slideId)), metadata.visibility ?? 'private', env.SLIDES);
+}
+
+async function serveSlideImage(key: string, visibility: DeckVisibility, slidesBucket: R2Bucket): Promise<Response> {
   try {
-    const object = await slidesBucket.get(filename);
+    const object = await slidesBucket.get(key);
 
-    if (!object) {
+    // Slides quarantined by moderation stay in R2 for review but are never shown
+    if (!object || object.customMetadata?.moderation === 'quarantined') {
       return new Response('Image not found', {
         status: 404,
         headers: getCorsHeaders()
@@ -172,7 +715,8 @@ async function serveSlideImage(filename: string, slidesBucket: R2Bucket): Promis
 
     const headers = {
       'Content-Type': object.httpMetadata?.contentType || 'image/jpeg',
-      'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
+      // Only public decks may sit in shared caches
+      'Cache-Control': visibility === 'public' ? 'public, max-age=86400' : 'private, max-age=3600',
       ...getCorsHeaders()
     };
 
@@ -228,25 +772,106 @@ async function handleDeckAPI(
 ): Promise<Response> {
   const corsHeaders = getCorsHeaders();
 
+  const orgId = await authenticateApiKey(request, env);
+  if (request.headers.has('Authorization') && !orgId) {
+    return unauthorizedResponse();
+  }
+
+  // GET /api/decks - List the organization's decks plus public community decks (?scope=mine|community)
+  if (pathname === '/api/decks' && request.method === 'GET') {
+    try {
+      const scope = new URL(request.url).searchParams.get('scope');
+      const decks: DeckListEntry[] = [];
+
+      if (orgId && scope !== 'community') {
+        // List the organization's deck metadata keys
+        const list = await env.DECKS.list({ prefix: deckListPrefix(orgId), limit: 1000 });
+
+        for (const key of list.keys) {
+          if (key.name.endsWith(':metadata')) {
+            const metadataJson = await env.DECKS.get(key.name);
+            if (metadataJson) {
+              decks.push({ ...JSON.parse(metadataJson), owned: true });
+            }
+          }
+        }
+      }
+
+      // Community decks can be browsed without an API key
+      if (scope !== 'mine') {
+        for (const metadata of await listPublicDecks(env)) {
+          if (metadata.orgId !== orgId) {
+            decks.push({ ...toPublicMetadata(metadata), owned: false });
+          }
+        }
+      }
+
+      // Sort by created date (newest first)
+      decks.sort((a, b) => b.createdAt - a.createdAt);
+
+      return new Response(JSON.stringify({ decks }), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+  }
+
+  // GET /api/decks/shared/:shareToken - Look up an unlisted deck from its share link (the link is the credential)
+  const sharedMatch = pathname.match(/^\/api\/decks\/shared\/([^\/]+)$/);
+  if (sharedMatch && request.method === 'GET') {
+    const deck = await getSharedDeck(sharedMatch[1], env);
+    if (!deck) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Deck not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const entry: DeckListEntry = { ...toPublicMetadata(deck), owned: deck.orgId === orgId };
+    return new Response(JSON.stringify({ deck: entry }), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+
+  // Every other deck route is scoped to the caller's organization; other organizations' decks are simply not found
+  if (!orgId) {
+    return unauthorizedResponse();
+  }
+
   // POST /api/decks/create - Create new deck
   if (pathname === '/api/decks/create' && request.method === 'POST') {
+    const parsed = await parseBody(request, validateCreateDeckRequest);
+    if (!parsed.ok) return parsed.response;
+    const body = parsed.value;
+
     try {
-      const body: CreateDeckRequest = await request.json();
       const deckId = generateDeckId();
       const metadata: DeckMetadata = {
         deckId,
+        orgId,
         name: body.name,
         description: body.description,
+        visibility: 'private',
         slideCount: 0,
         status: 'pending',
         createdAt: Date.now(),
       };
 
-      await env.DECKS.put(`deck:${deckId}:metadata`, JSON.stringify(metadata));
+      await env.DECKS.put(deckKey(orgId, deckId, 'metadata'), JSON.stringify(metadata));
+
+      const visible = body.visibility && body.visibility !== 'private' ?
+        await setDeckVisibility(metadata, body.visibility, env) :
+        metadata;
 
       const response: CreateDeckResponse = {
         success: true,
         deckId,
+        shareUrl: getShareUrl(request, visible),
       };
 
       return new Response(JSON.stringify(response), {
@@ -256,7 +881,7 @@ async function handleDeckAPI(
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return new Response(
         JSON.stringify({ success: false, error: errorMessage }),
-        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
       );
     }
   }
@@ -266,40 +891,355 @@ async function handleDeckAPI(
   if (uploadMatch && request.method === 'POST') {
     const deckId = uploadMatch[1];
 
-    try {
-      const formData = await request.formData();
-      const slideId = formData.get('slideId') as string;
-      const imageFile = formData.get('image') as File;
+    const formData = await request.formData().catch(() => null);
+    if (!formData) {
+      return validationErrorResponse('Malformed form data', [{ field: 'body', message: 'must be multipart/form-data' }]);
+    }
+
+    const upload = validateUploadSlideForm(formData);
+    if (!upload.ok) {
+      return validationErrorResponse('Invalid request body', upload.errors);
+    }
+    const { slideId, image: imageFile, title } = upload.value;
 
-      if (!slideId || !imageFile) {
+    try {
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+      if (!metadataJson) {
         return new Response(
-          JSON.stringify({ success: false, error: 'Missing slideId or image' }),
-          { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+          JSON.stringify({ success: false, error: 'Deck not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
         );
       }
 
+      const metadata: DeckMetadata = JSON.parse(metadataJson);
+      if (metadata.status === 'processing') {
+        return deckProcessingResponse(corsHeaders);
+      }
+
       // Upload to R2
       const imageBuffer = await imageFile.arrayBuffer();
-      const r2Key = `decks/${deckId}/${slideId}`;
-      await env.SLIDES.put(r2Key, imageBuffer, {
-        httpMetadata: {
-          contentType: imageFile.type || 'image/jpeg',
-        },
+      const contentType = imageFile.type || 'image/jpeg';
+      await env.SLIDES.put(slideObjectKey(orgId, deckId, slideId), imageBuffer, {
+        httpMetadata: { contentType },
+        customMetadata: title ? { title } : {},
+      });
+
+      // Re-uploading an existing slide ID replaces it rather than adding a slide
+      const { slides, replaced } = upsertSlide(await getSlideManifest(orgId, deckId, env), {
+        slideId,
+        filename: imageFile.name || slideId,
+        contentType,
+        size: imageBuffer.byteLength,
+        title,
+        uploadedAt: Date.now(),
+      });
+      const updated = await saveSlideManifest(metadata, slides, env, NEEDS_PROCESSING);
+
+      const response: UploadSlideResponse = {
+        success: true,
+        slideId,
+        replaced,
+        slideCount: updated.slideCount,
+      };
+
+      return new Response(JSON.stringify(response), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+  }
+
+  // POST /api/decks/:deckId/upload-archive - Upload a ZIP of slide images in one request
+  const archiveMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/upload-archive$/);
+  if (archiveMatch && request.method === 'POST') {
+    const deckId = archiveMatch[1];
+
+    if (Number(request.headers.get('Content-Length') ?? 0) > MAX_ARCHIVE_UPLOAD_BYTES) {
+      return archiveTooLargeResponse(corsHeaders);
+    }
+
+    const formData = await request.formData().catch(() => null);
+    if (!formData) {
+      return validationErrorResponse('Malformed form data', [{ field: 'body', message: 'must be multipart/form-data' }]);
+    }
+
+    const upload = validateUploadArchiveForm(formData);
+    if (!upload.ok) {
+      return validationErrorResponse('Invalid request body', upload.errors);
+    }
+    if (upload.value.archive.size > MAX_ARCHIVE_UPLOAD_BYTES) {
+      return archiveTooLargeResponse(corsHeaders);
+    }
+
+    try {
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+      if (!metadataJson) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Deck not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      const metadata: DeckMetadata = JSON.parse(metadataJson);
+      if (metadata.status === 'processing') {
+        return deckProcessingResponse(corsHeaders);
+      }
+
+      const archive = await upload.value.archive.arrayBuffer();
+      let entries;
+      try {
+        entries = readZipEntries(archive);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unreadable archive';
+        return validationErrorResponse('Invalid archive', [{ field: 'archive', message }]);
+      }
+      if (entries.length > MAX_ARCHIVE_ENTRIES) {
+        return validationErrorResponse('Invalid archive', [{ field: 'archive', message: `must contain at most ${MAX_ARCHIVE_ENTRIES} files` }]);
+      }
+
+      // Slides are added after any already in the deck, in natural filename order
+      let slides = await getSlideManifest(orgId, deckId, env);
+      const files: ArchiveFileReport[] = [];
+      let uploaded = 0;
+      let inflatedBytes = 0;
+
+      for (const entry of [...entries].sort((a, b) => naturalCompare(a.name, b.name))) {
+        const basename = entry.name.split('/').pop() || entry.name;
+        const contentType = ARCHIVE_IMAGE_TYPES[basename.split('.').pop()?.toLowerCase() ?? ''];
+
+        // macOS adds resource forks and dotfiles to archives it creates
+        if (entry.name.startsWith('__MACOSX/') || basename.startsWith('.') || !contentType) {
+          files.push({ filename: entry.name, status: 'skipped', reason: 'not a .jpg, .jpeg or .png image' });
+          continue;
+        }
+        if (entry.uncompressedSize > MAX_ARCHIVE_SLIDE_BYTES) {
+          files.push({ filename: entry.name, status: 'skipped', size: entry.uncompressedSize, reason: `larger than ${MAX_ARCHIVE_SLIDE_BYTES / (1024 * 1024)}MB` });
+          continue;
+        }
+        const remainingBytes = MAX_ARCHIVE_TOTAL_BYTES - inflatedBytes;
+        if (entry.uncompressedSize > remainingBytes) {
+          files.push({ filename: entry.name, status: 'skipped', size: entry.uncompressedSize, reason: `archive unpacks to more than ${MAX_ARCHIVE_TOTAL_BYTES / (1024 * 1024)}MB` });
+          continue;
+        }
+
+        const slideId = nextSlideId(slides);
+        try {
+          const image = await readZipEntry(archive, entry, Math.min(MAX_ARCHIVE_SLIDE_BYTES, remainingBytes));
+          inflatedBytes += image.byteLength;
+          await env.SLIDES.put(slideObjectKey(orgId, deckId, slideId), image, {
+            httpMetadata: { contentType },
+          });
+          slides = upsertSlide(slides, {
+            slideId,
+            filename: basename,
+            contentType,
+            size: image.byteLength,
+            uploadedAt: Date.now(),
+          }).slides;
+          uploaded++;
+          files.push({ filename: entry.name, status: 'uploaded', slideId, size: image.byteLength });
+        } catch (error) {
+          files.push({ filename: entry.name, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      const updated = uploaded > 0 ?
+        await saveSlideManifest(metadata, slides, env, NEEDS_PROCESSING) :
+        metadata;
+
+      const response: UploadArchiveResponse = {
+        success: true,
+        uploaded,
+        slideCount: updated.slideCount,
+        files,
+      };
+
+      return new Response(JSON.stringify(response), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
       });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+  }
+
+  // GET /api/decks/:deckId/slides - List the deck's slide manifest
+  // PUT /api/decks/:deckId/slides - Reorder the slides ({ slideIds: [...] } listing every slide once)
+  const slidesMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/slides$/);
+  if (slidesMatch && (request.method === 'GET' || request.method === 'PUT')) {
+    const deckId = slidesMatch[1];
+
+    const parsed = request.method === 'PUT' ? await parseBody(request, validateReorderSlidesRequest) : null;
+    if (parsed && !parsed.ok) return parsed.response;
+
+    try {
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+      if (!metadataJson) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Deck not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      let slides = await getSlideManifest(orgId, deckId, env);
 
-      // Update deck metadata slide count
-      const metadataKey = `deck:${deckId}:metadata`;
-      const metadataJson = await env.DECKS.get(metadataKey);
-      if (metadataJson) {
+      if (parsed) {
         const metadata: DeckMetadata = JSON.parse(metadataJson);
-        metadata.slideCount++;
-        await env.DECKS.put(metadataKey, JSON.stringify(metadata));
+        if (metadata.status === 'processing') {
+          return deckProcessingResponse(corsHeaders);
+        }
+
+        const { slideIds } = parsed.value;
+        const byId = new Map(slides.map(slide => [slide.slideId, slide]));
+        if (slideIds.length !== slides.length || !slideIds.every(slideId => byId.has(slideId))) {
+          return validationErrorResponse('Invalid request body', [{ field: 'slideIds', message: 'must list every slide in the deck exactly once' }]);
+        }
+
+        // Order alone doesn't touch the adjacency list, so a ready deck stays ready
+        slides = slideIds.map((slideId, index) => ({ ...byId.get(slideId)!, order: index + 1 }));
+        await saveSlideManifest(metadata, slides, env);
       }
 
+      const response: SlideManifestResponse = { success: true, slides };
+      return new Response(JSON.stringify(response), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return new Response(
-        JSON.stringify({ success: true, slideId }),
-        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        JSON.stringify({ success: false, error: errorMessage }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
       );
+    }
+  }
+
+  // PUT /api/decks/:deckId/slides/:slideId - Replace one slide's image (and title)
+  // DELETE /api/decks/:deckId/slides/:slideId - Delete one slide
+  const slideMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/slides\/([^\/]+)$/);
+  if (slideMatch && (request.method === 'PUT' || request.method === 'DELETE')) {
+    const [, deckId, slideId] = slideMatch;
+
+    let replacement: { image: File; title?: string } | null = null;
+    if (request.method === 'PUT') {
+      const formData = await request.formData().catch(() => null);
+      if (!formData) {
+        return validationErrorResponse('Malformed form data', [{ field: 'body', message: 'must be multipart/form-data' }]);
+      }
+
+      const upload = validateReplaceSlideForm(formData);
+      if (!upload.ok) {
+        return validationErrorResponse('Invalid request body', upload.errors);
+      }
+      replacement = upload.value;
+    }
+
+    try {
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+      if (!metadataJson) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Deck not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      const metadata: DeckMetadata = JSON.parse(metadataJson);
+      if (metadata.status === 'processing') {
+        return deckProcessingResponse(corsHeaders);
+      }
+
+      const slides = await getSlideManifest(orgId, deckId, env);
+      if (!slides.some(slide => slide.slideId === slideId)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Slide not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      let updated: DeckMetadata;
+      if (replacement) {
+        const { image, title } = replacement;
+        const imageBuffer = await image.arrayBuffer();
+        const contentType = image.type || 'image/jpeg';
+        await env.SLIDES.put(slideObjectKey(orgId, deckId, slideId), imageBuffer, {
+          httpMetadata: { contentType },
+          customMetadata: title ? { title } : {},
+        });
+        // The old embedding describes the old image
+        await env.DECKS.delete(deckKey(orgId, deckId, `embedding:${slideId}`));
+
+        updated = await saveSlideManifest(metadata, upsertSlide(slides, {
+          slideId,
+          filename: image.name || slideId,
+          contentType,
+          size: imageBuffer.byteLength,
+          title,
+          uploadedAt: Date.now(),
+        }).slides, env, NEEDS_PROCESSING);
+      } else {
+        await deleteSlideData(orgId, deckId, slideId, env);
+        updated = await saveSlideManifest(metadata, slides.filter(slide => slide.slideId !== slideId), env, NEEDS_PROCESSING);
+      }
+
+      const response: UploadSlideResponse = {
+        success: true,
+        slideId,
+        ...(replacement && { replaced: true }),
+        slideCount: updated.slideCount,
+      };
+
+      return new Response(JSON.stringify(response), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+  }
+
+  // POST /api/decks/:deckId/visibility - Make a deck private, unlisted (share link) or public
+  const visibilityMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/visibility$/);
+  if (visibilityMatch && request.method === 'POST') {
+    const deckId = visibilityMatch[1];
+
+    const parsed = await parseBody(request, validateUpdateVisibilityRequest);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+      if (!metadataJson) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Deck not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      // Asked of the job itself: the metadata's status may be a stale KV read
+      if (await getDeckProcessor(env, orgId, deckId).isRunning()) {
+        return deckProcessingResponse(corsHeaders);
+      }
+
+      const metadata = await setDeckVisibility(JSON.parse(metadataJson), parsed.value.visibility, env);
+
+      const response: UpdateVisibilityResponse = {
+        success: true,
+        visibility: metadata.visibility,
+        shareUrl: getShareUrl(request, metadata),
+      };
+
+      return new Response(JSON.stringify(response), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return new Response(
@@ -316,7 +1256,7 @@ async function handleDeckAPI(
 
     try {
       // Get deck metadata
-      const metadataJson = await env.DECKS.get(`deck:${deckId}:metadata`);
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
       if (!metadataJson) {
         return new Response(
           JSON.stringify({ success: false, error: 'Deck not found' }),
@@ -324,42 +1264,29 @@ async function handleDeckAPI(
         );
       }
 
-      const metadata: DeckMetadata = JSON.parse(metadataJson);
+      // Process the slides in manifest order
+      const slideIds = (await getSlideManifest(orgId, deckId, env)).map(slide => slide.slideId);
+      if (slideIds.length === 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Upload slides before processing the deck' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
 
-      // Update status to processing
-      metadata.status = 'processing';
-      await env.DECKS.put(`deck:${deckId}:metadata`, JSON.stringify(metadata));
-
-      // Get list of slide IDs (assuming slides are named slide_1, slide_2, etc.)
-      const slideIds: string[] = [];
-      for (let i = 1; i <= metadata.slideCount; i++) {
-        slideIds.push(`slide_${i}`);
-      }
-
-      // Process deck asynchronously
-      ctx.waitUntil(
-        (async () => {
-          const result = await processDeck(deckId, slideIds, env);
-
-          // Update metadata based on result
-          const finalMetadata: DeckMetadata = JSON.parse(
-            (await env.DECKS.get(`deck:${deckId}:metadata`)) || '{}'
-          );
-          finalMetadata.status = result.success ? 'ready' : 'failed';
-          finalMetadata.processedAt = Date.now();
-          if (!result.success) {
-            finalMetadata.error = result.error;
-          }
-          await env.DECKS.put(`deck:${deckId}:metadata`, JSON.stringify(finalMetadata));
-        })()
-      );
+      // Hand the run to the deck's processing job, which works through the slides in batches
+      if (!(await getDeckProcessor(env, orgId, deckId).start(orgId, deckId, slideIds))) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Deck is already being processed' }),
+          { status: 409, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
 
       const status: ProcessingStatus = {
         deckId,
-        totalSlides: metadata.slideCount,
+        totalSlides: slideIds.length,
         processedSlides: 0,
         status: 'processing',
-        currentStep: 'Starting AI processing...',
+        currentStep: 'Queued for processing',
       };
 
       const response: ProcessDeckResponse = {
@@ -379,13 +1306,32 @@ async function handleDeckAPI(
     }
   }
 
+  // GET /api/decks/:deckId/progress - Server-Sent Events stream of per-slide processing progress
+  const progressMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/progress$/);
+  if (progressMatch && request.method === 'GET') {
+    const deckId = progressMatch[1];
+
+    if (!(await env.DECKS.get(deckKey(orgId, deckId, 'metadata')))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Deck not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const response = await getDeckProcessor(env, orgId, deckId).fetch(request);
+    return new Response(response.body, {
+      status: response.status,
+      headers: { ...Object.fromEntries(response.headers.entries()), ...corsHeaders },
+    });
+  }
+
   // GET /api/decks/:deckId/status - Get processing status
   const statusMatch = pathname.match(/^\/api\/decks\/([^\/]+)\/status$/);
   if (statusMatch && request.method === 'GET') {
     const deckId = statusMatch[1];
 
     try {
-      const metadataJson = await env.DECKS.get(`deck:${deckId}:metadata`);
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
       if (!metadataJson) {
         return new Response(
           JSON.stringify({ success: false, error: 'Deck not found' }),
@@ -398,9 +1344,11 @@ async function handleDeckAPI(
       const status: ProcessingStatus = {
         deckId: metadata.deckId,
         totalSlides: metadata.slideCount,
-        processedSlides: metadata.status === 'ready' ? metadata.slideCount : 0,
+        processedSlides: metadata.processedSlides ?? (metadata.status === 'ready' ? metadata.slideCount : 0),
         status: metadata.status,
+        currentStep: metadata.currentStep,
         error: metadata.error,
+        flaggedSlides: metadata.flaggedSlides ?? [],
       };
 
       return new Response(JSON.stringify(status), {
@@ -415,45 +1363,13 @@ async function handleDeckAPI(
     }
   }
 
-  // GET /api/decks - List all decks
-  if (pathname === '/api/decks' && request.method === 'GET') {
-    try {
-      // List all deck metadata keys
-      const list = await env.DECKS.list({ prefix: 'deck:', limit: 1000 });
-      const decks: DeckMetadata[] = [];
-
-      for (const key of list.keys) {
-        if (key.name.endsWith(':metadata')) {
-          const metadataJson = await env.DECKS.get(key.name);
-          if (metadataJson) {
-            decks.push(JSON.parse(metadataJson));
-          }
-        }
-      }
-
-      // Sort by created date (newest first)
-      decks.sort((a, b) => b.createdAt - a.createdAt);
-
-      return new Response(JSON.stringify({ decks }), {
-        headers: { 'Content-Type': 'application/json', ...corsHeaders },
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return new Response(
-        JSON.stringify({ success: false, error: errorMessage }),
-        { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
-      );
-    }
-  }
-
   // DELETE /api/decks/:deckId - Delete deck
   const deleteMatch = pathname.match(/^\/api\/decks\/([^\/]+)$/);
   if (deleteMatch && request.method === 'DELETE') {
     const deckId = deleteMatch[1];
 
     try {
-      // Get deck metadata to know slide count
-      const metadataJson = await env.DECKS.get(`deck:${deckId}:metadata`);
+      const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
       if (!metadataJson) {
         return new Response(
           JSON.stringify({ success: false, error: 'Deck not found' }),
@@ -463,20 +1379,19 @@ async function handleDeckAPI(
 
       const metadata: DeckMetadata = JSON.parse(metadataJson);
 
-      // Delete from R2
-      for (let i = 1; i <= metadata.slideCount; i++) {
-        const r2Key = `decks/${deckId}/slide_${i}`;
-        await env.SLIDES.delete(r2Key);
+      // Revoke any public listing or share link first, and stop any processing run
+      await removeDeckVisibility(metadata, env);
+      await getDeckProcessor(env, orgId, deckId).cancel();
+
+      // Delete every slide in the manifest from R2, with its embedding
+      for (const slide of await getSlideManifest(orgId, deckId, env)) {
+        await deleteSlideData(orgId, deckId, slide.slideId, env);
       }
 
       // Delete from KV
-      await env.DECKS.delete(`deck:${deckId}:metadata`);
-      await env.DECKS.delete(`deck:${deckId}:adjacency`);
-
-      // Delete individual embeddings
-      for (let i = 1; i <= metadata.slideCount; i++) {
-        await env.DECKS.delete(`deck:${deckId}:embedding:slide_${i}`);
-      }
+      await env.DECKS.delete(deckKey(orgId, deckId, 'metadata'));
+      await env.DECKS.delete(deckKey(orgId, deckId, 'slides'));
+      await env.DECKS.delete(deckKey(orgId, deckId, 'adjacency'));
 
       return new Response(
         JSON.stringify({ success: true }),
@@ -497,14 +1412,113 @@ async function handleDeckAPI(
   });
 }
 
+async function handleOrgAPI(pathname: string, request: Request, env: Env): Promise<Response> {
+  const corsHeaders = getCorsHeaders();
+
+  // Organizations and their keys are provisioned by the deployment's operator
+  if (!isAdminRequest(request, env)) {
+    return unauthorizedResponse();
+  }
+
+  // POST /api/orgs - Create an organization and its first API key
+  if (pathname === '/api/orgs' && request.method === 'POST') {
+    const parsed = await parseBody(request, validateCreateOrganizationRequest);
+    if (!parsed.ok) return parsed.response;
+
+    const { organization, apiKey } = await createOrganization(parsed.value.name.trim(), env);
+
+    const response: CreateOrganizationResponse = {
+      success: true,
+      orgId: organization.orgId,
+      apiKey,
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+
+  // POST /api/orgs/:orgId/keys - Issue an additional API key
+  const keysMatch = pathname.match(/^\/api\/orgs\/([^\/]+)\/keys$/);
+  if (keysMatch && request.method === 'POST') {
+    const orgId = keysMatch[1];
+
+    const parsed = await parseBody(request, validateCreateApiKeyRequest, true);
+    if (!parsed.ok) return parsed.response;
+
+    if (!(await getOrganization(orgId, env))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Organization not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const response: CreateApiKeyResponse = {
+      success: true,
+      apiKey: await issueApiKey(orgId, parsed.value.label || 'default', env),
+    };
+
+    return new Response(JSON.stringify(response), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+
+  return new Response('Not Found', {
+    status: 404,
+    headers: corsHeaders,
+  });
+}
+
+function unauthorizedResponse(): Response {
+  return new Response(JSON.stringify({
+    success: false,
+    error: 'A valid API key is required'
+  }), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': 'Bearer',
+      ...getCorsHeaders()
+    }
+  });
+}
+
+// Slides and visibility can't change under a running processing job, which rewrites the deck's metadata
+function deckProcessingResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: 'Deck is being processed; wait for it to finish before changing it' }),
+    { status: 409, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+function archiveTooLargeResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: `Archive must be at most ${MAX_ARCHIVE_UPLOAD_BYTES / (1024 * 1024)}MB; split the deck into several uploads` }),
+    { status: 413, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+// One processing job per deck
+function getDeckProcessor(env: Env, orgId: string, deckId: string): DurableObjectStub<DeckProcessor> {
+  const id = env.DECK_PROCESSOR.idFromName(`${orgId}:${deckId}`);
+  return env.DECK_PROCESSOR.get(id) as DurableObjectStub<DeckProcessor>;
+}
+
+// Share links open the admin page with the deck preselected
+function getShareUrl(request: Request, metadata: DeckMetadata): string | undefined {
+  if (metadata.visibility !== 'unlisted' || !metadata.shareToken) return undefined;
+  return `${new URL(request.url).origin}/admin?share=${metadata.shareToken}`;
+}
+
 function generateDeckId(): string {
-  return `deck_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return `deck_${Date.now()}_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
 }
 
+// Access-Control-Allow-Origin is added per request by applyResponseHeaders
 function getCorsHeaders(): Record<string, string> {
   return {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, Authorization, ${HOST_SECRET_HEADER}, ${VOTER_TOKEN_HEADER}`,
   };
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Env, ModerationResult } from './types/index';
+
+/**
+ * Content moderation for Battle Decks
+ *
+ * Slides are shown live on the big screen, so processSlide checks every slide
+ * before it can join a deck's adjacency data. Moderators classify the LLaVA
+ * description describeSlide already wrote for the embedding, so each image is
+ * captioned once. They are pluggable:
+ * - ai:   Llama Guard classifies the description
+ * - stub: no AI calls; flags only the slide IDs listed in MODERATION_STUB_FLAGGED
+ *         (for offline development and testing the flag/quarantine path)
+ *
+ * Picked with the MODERATION_MODE var (defaults to ai).
+ */
+
+export interface SlideModerator {
+  moderate(description: string, slideId: string): Promise<ModerationResult>;
+}
+
+// Cloudflare Workers AI model
+const SAFETY_MODEL = '@cf/meta/llama-guard-3-8b';
+
+export function createModerator(env: Env): SlideModerator {
+  if (env.MODERATION_MODE === 'stub') {
+    return stubModerator((env.MODERATION_STUB_FLAGGED || '').split(','));
+  }
+  return workersAiModerator(env);
+}
+
+export function workersAiModerator(env: Env): SlideModerator {
+  return {
+    async moderate(description: string): Promise<ModerationResult> {
+      try {
+        // Llama Guard answers with safe/unsafe and hazard codes such as S12
+        const safetyResponse = await env.AI.run(SAFETY_MODEL, {
+          messages: [{ role: 'user', content: `Slide shown to a live audience: ${description}` }],
+          response_format: { type: 'json_object' },
+        });
+
+        const verdict = safetyResponse.response;
+        if (!verdict || typeof verdict === 'string') {
+          throw new Error('Invalid response from safety model');
+        }
+
+        return {
+          safe: verdict.safe !== false,
+          categories: verdict.categories ?? [],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error moderating slide:', errorMessage);
+        throw new Error(`Failed to moderate slide: ${errorMessage}`);
+      }
+    },
+  };
+}
+
+export function stubModerator(flaggedSlideIds: string[]): SlideModerator {
+  const flagged = new Set(flaggedSlideIds.map(slideId => slideId.trim()).filter(Boolean));
+
+  return {
+    async moderate(_description: string, slideId: string): Promise<ModerationResult> {
+      return flagged.has(slideId) ?
+        { safe: false, categories: ['stub'] } :
+        { safe: true, categories: [] };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { DurableObject } from "cloudflare:workers";
+import { Env, RateLimit, RateLimitResult, TokenBucket } from './types/index';
+
+/**
+ * Rate limiting for Battle Decks
+ *
+ * Token buckets: each key holds up to `capacity` tokens and refills the whole
+ * bucket over `periodSeconds`. Every request takes one token; an empty bucket
+ * means the request is rejected until a token comes back.
+ *
+ * - HTTP limits (per IP and per voter) live in a RateLimiter Durable Object,
+ *   one instance per bucket key
+ * - WebSocket limits live on each socket's attachment inside GameSession
+ */
+
+// Keep a bucket in storage a little longer than it takes to refill
+const BUCKET_EXPIRY_GRACE = 60 * 1000;
+
+/**
+ * Parse a "capacity/periodSeconds" limit such as "10/60"
+ * Falls back to the default when the variable is missing or malformed
+ */
+export function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return fallback;
+
+  const capacity = parseInt(match[1]);
+  const periodSeconds = parseInt(match[2]);
+  if (capacity < 1 || periodSeconds < 1) return fallback;
+
+  return { capacity, periodSeconds };
+}
+
+/**
+ * Take one token from a bucket (a missing bucket starts full)
+ * Returns the updated bucket, which the caller must persist
+ */
+export function consumeToken(
+  bucket: TokenBucket | undefined,
+  limit: RateLimit,
+  now: number = Date.now()
+): RateLimitResult & { bucket: TokenBucket } {
+  const refillPerMs = limit.capacity / (limit.periodSeconds * 1000);
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = Math.min(limit.capacity, (bucket ? bucket.tokens : limit.capacity) + elapsed * refillPerMs);
+
+  if (tokens < 1) {
+    return {
+      allowed: false,
+      retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000),
+      bucket: { tokens, updatedAt: now }
+    };
+  }
+
+  return {
+    allowed: true,
+    retryAfter: 0,
+    bucket: { tokens: tokens - 1, updatedAt: now }
+  };
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  private bucket: TokenBucket | undefined;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      this.bucket = await this.ctx.storage.get<TokenBucket>('bucket');
+    });
+  }
+
+  // RPC method: Take a token for this key
+  async consume(limit: RateLimit): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { bucket, allowed, retryAfter } = consumeToken(this.bucket, limit, now);
+
+    this.bucket = bucket;
+    await this.ctx.storage.put('bucket', bucket);
+
+    // Once the bucket would be full again there is nothing worth keeping
+    await this.ctx.storage.setAlarm(now + limit.periodSeconds * 1000 + BUCKET_EXPIRY_GRACE);
+
+    return { allowed, retryAfter };
+  }
+
+  async alarm(): Promise<void> {
+    this.bucket = undefined;
+    await this.ctx.storage.deleteAll();
+  }
+}
@@ -0,0 +1,103 @@
+import { Env, DeckMetadata, SlideManifest, SlideManifestEntry } from './types/index';
+import { deckKey, slideObjectKey, slideObjectPrefix } from './tenancy';
+import { naturalCompare } from './zip-archive';
+
+/**
+ * Slide manifests for Battle Decks
+ *
+ * Each deck keeps an explicit list of its slides in KV:
+ *   org:{orgId}:deck:{deckId}:slides -> SlideManifest
+ *
+ * The manifest is the source of truth for which slides a deck has and in what
+ * order: processing, deletion and the game's opening slide all follow it, so
+ * slide IDs no longer have to be slide_1..slide_N. DeckMetadata.slideCount is
+ * kept equal to the manifest's length.
+ *
+ * Decks uploaded before manifests existed have none; their manifest is rebuilt
+ * from the slide objects in R2 (in natural ID order) the first time it is read.
+ */
+
+// Merge a slide into the manifest: replaced in place if the ID exists, otherwise appended
+export function upsertSlide(
+  slides: SlideManifestEntry[],
+  slide: Omit<SlideManifestEntry, 'order'>
+): { slides: SlideManifestEntry[]; replaced: boolean } {
+  const index = slides.findIndex(entry => entry.slideId === slide.slideId);
+  if (index === -1) {
+    return { slides: [...slides, { ...slide, order: slides.length + 1 }], replaced: false };
+  }
+
+  const updated = [...slides];
+  updated[index] = { ...slide, order: slides[index].order };
+  return { slides: updated, replaced: true };
+}
+
+// The next free ID in the slide_N series
+export function nextSlideId(slides: SlideManifestEntry[]): string {
+  const taken = new Set(slides.map(slide => slide.slideId));
+  let n = slides.length + 1;
+  while (taken.has(`slide_${n}`)) n++;
+  return `slide_${n}`;
+}
+
+export async function getSlideManifest(orgId: string, deckId: string, env: Env): Promise<SlideManifestEntry[]> {
+  const manifestJson = await env.DECKS.get(deckKey(orgId, deckId, 'slides'));
+  if (manifestJson) {
+    return (JSON.parse(manifestJson) as SlideManifest).slides;
+  }
+  return rebuildFromR2(orgId, deckId, env);
+}
+
+/**
+ * Store a deck's manifest (renumbering its order) and sync slideCount, plus any other metadata changes
+ */
+export async function saveSlideManifest(
+  metadata: DeckMetadata,
+  slides: SlideManifestEntry[],
+  env: Env,
+  changes: Partial<DeckMetadata> = {}
+): Promise<DeckMetadata> {
+  const manifest: SlideManifest = {
+    deckId: metadata.deckId,
+    slides: slides.map((slide, index) => ({ ...slide, order: index + 1 })),
+    updatedAt: Date.now(),
+  };
+  const updated: DeckMetadata = { ...metadata, ...changes, slideCount: manifest.slides.length };
+
+  await env.DECKS.put(deckKey(metadata.orgId, metadata.deckId, 'slides'), JSON.stringify(manifest));
+  await env.DECKS.put(deckKey(metadata.orgId, metadata.deckId, 'metadata'), JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Remove a slide's image and embedding (the caller drops it from the manifest)
+ */
+export async function deleteSlideData(orgId: string, deckId: string, slideId: string, env: Env): Promise<void> {
+  await env.SLIDES.delete(slideObjectKey(orgId, deckId, slideId));
+  await env.DECKS.delete(deckKey(orgId, deckId, `embedding:${slideId}`));
+}
+
+async function rebuildFromR2(orgId: string, deckId: string, env: Env): Promise<SlideManifestEntry[]> {
+  const prefix = slideObjectPrefix(orgId, deckId);
+  const objects: R2Object[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await env.SLIDES.list({ prefix, cursor, include: ['httpMetadata', 'customMetadata'] });
+    objects.push(...list.objects);
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return objects
+    .map(object => ({ object, slideId: object.key.slice(prefix.length) }))
+    .sort((a, b) => naturalCompare(a.slideId, b.slideId))
+    .map(({ object, slideId }, index) => ({
+      slideId,
+      filename: slideId,
+      contentType: object.httpMetadata?.contentType || 'image/jpeg',
+      size: object.size,
+      order: index + 1,
+      title: object.customMetadata?.title,
+      uploadedAt: object.uploaded.getTime(),
+    }));
+}
@@ -0,0 +1,238 @@
+import { Env, Organization, ApiKeyRecord, DeckMetadata, DeckVisibility } from './types/index';
+
+/**
+ * Multi-tenancy for Battle Decks
+ *
+ * Decks belong to an organization. Every deck key in KV and every slide in R2
+ * lives under the owning organization's prefix:
+ *   KV: org:{orgId}:deck:{deckId}:metadata | :slides | :adjacency | :embedding:{slideId}
+ *   R2: orgs/{orgId}/decks/{deckId}/{slideId}
+ *
+ * Callers prove their organization with an API key (Authorization: Bearer ...).
+ * Only a SHA-256 hash of each key is stored:
+ *   KV: apikey:{sha256} -> ApiKeyRecord
+ *   KV: org:{orgId} -> Organization
+ *
+ * Organizations and keys are created with the deployment's ADMIN_API_KEY.
+ *
+ * Deck visibility decides who else may see and play a deck:
+ *   private  - only the owning organization (the default)
+ *   unlisted - also anyone holding its share link: share:{shareToken} -> { orgId, deckId }
+ *   public   - listed as a community deck for everyone: public-deck:{deckId} -> orgId
+ */
+
+const API_KEY_PREFIX = 'bd_';
+const PUBLIC_DECK_PREFIX = 'public-deck:';
+const SHARE_LINK_PREFIX = 'share:';
+
+export function deckKey(orgId: string, deckId: string, suffix: string): string {
+  return `org:${orgId}:deck:${deckId}:${suffix}`;
+}
+
+export function deckListPrefix(orgId: string): string {
+  return `org:${orgId}:deck:`;
+}
+
+export function slideObjectKey(orgId: string, deckId: string, slideId: string): string {
+  return `orgs/${orgId}/decks/${deckId}/${slideId}`;
+}
+
+export function slideObjectPrefix(orgId: string, deckId: string): string {
+  return `orgs/${orgId}/decks/${deckId}/`;
+}
+
+/**
+ * Resolve the organization behind the request's API key
+ * Returns null when the key is missing or unknown
+ */
+export async function authenticateApiKey(request: Request, env: Env): Promise<string | null> {
+  const apiKey = getBearerToken(request);
+  if (!apiKey || !apiKey.startsWith(API_KEY_PREFIX)) return null;
+
+  const recordJson = await env.DECKS.get(`apikey:${await hashApiKey(apiKey)}`);
+  if (!recordJson) return null;
+
+  const record: ApiKeyRecord = JSON.parse(recordJson);
+  return record.orgId;
+}
+
+/**
+ * Check the request carries the deployment's admin key
+ */
+export function isAdminRequest(request: Request, env: Env): boolean {
+  const token = getBearerToken(request);
+  if (!token || !env.ADMIN_API_KEY) return false;
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(env.ADMIN_API_KEY);
+  const actual = encoder.encode(token);
+  return expected.byteLength === actual.byteLength && crypto.subtle.timingSafeEqual(expected, actual);
+}
+
+export async function getOrganization(orgId: string, env: Env): Promise<Organization | null> {
+  const orgJson = await env.DECKS.get(`org:${orgId}`);
+  return orgJson ? JSON.parse(orgJson) : null;
+}
+
+/**
+ * Create an organization along with its first API key
+ */
+export async function createOrganization(
+  name: string,
+  env: Env
+): Promise<{ organization: Organization; apiKey: string }> {
+  const organization: Organization = {
+    orgId: `org_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`,
+    name,
+    createdAt: Date.now(),
+  };
+
+  await env.DECKS.put(`org:${organization.orgId}`, JSON.stringify(organization));
+  const apiKey = await issueApiKey(organization.orgId, 'default', env);
+
+  return { organization, apiKey };
+}
+
+/**
+ * Mint a new API key for an organization
+ * The plaintext key is only ever returned here
+ */
+export async function issueApiKey(orgId: string, label: string, env: Env): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const apiKey = API_KEY_PREFIX + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+  const record: ApiKeyRecord = {
+    orgId,
+    label,
+    createdAt: Date.now(),
+  };
+  await env.DECKS.put(`apikey:${await hashApiKey(apiKey)}`, JSON.stringify(record));
+
+  return apiKey;
+}
+
+/**
+ * Change a deck's visibility and keep the public and share link indexes in step
+ * Moving away from unlisted revokes the old share link
+ */
+export async function setDeckVisibility(
+  metadata: DeckMetadata,
+  visibility: DeckVisibility,
+  env: Env
+): Promise<DeckMetadata> {
+  await removeDeckVisibility(metadata, env);
+
+  const updated: DeckMetadata = { ...metadata, visibility, shareToken: undefined };
+
+  if (visibility === 'public') {
+    await env.DECKS.put(PUBLIC_DECK_PREFIX + metadata.deckId, metadata.orgId);
+  } else if (visibility === 'unlisted') {
+    updated.shareToken = metadata.shareToken || generateShareToken();
+    await env.DECKS.put(
+      SHARE_LINK_PREFIX + updated.shareToken,
+      JSON.stringify({ orgId: metadata.orgId, deckId: metadata.deckId })
+    );
+  }
+
+  await env.DECKS.put(deckKey(metadata.orgId, metadata.deckId, 'metadata'), JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Drop a deck from the public and share link indexes (before deleting it or changing visibility)
+ */
+export async function removeDeckVisibility(metadata: DeckMetadata, env: Env): Promise<void> {
+  await env.DECKS.delete(PUBLIC_DECK_PREFIX + metadata.deckId);
+  if (metadata.shareToken) {
+    await env.DECKS.delete(SHARE_LINK_PREFIX + metadata.shareToken);
+  }
+}
+
+/**
+ * Metadata of every public deck, across organizations
+ */
+export async function listPublicDecks(env: Env): Promise<DeckMetadata[]> {
+  const list = await env.DECKS.list({ prefix: PUBLIC_DECK_PREFIX, limit: 1000 });
+  const decks: DeckMetadata[] = [];
+
+  for (const key of list.keys) {
+    const deckId = key.name.substring(PUBLIC_DECK_PREFIX.length);
+    const orgId = await env.DECKS.get(key.name);
+    const metadata = orgId ? await getDeckMetadata(orgId, deckId, env) : null;
+    if (metadata && metadata.visibility === 'public') {
+      decks.push(metadata);
+    }
+  }
+
+  return decks;
+}
+
+/**
+ * Metadata of the unlisted deck behind a share link
+ */
+export async function getSharedDeck(shareToken: string, env: Env): Promise<DeckMetadata | null> {
+  const linkJson = await env.DECKS.get(SHARE_LINK_PREFIX + shareToken);
+  if (!linkJson) return null;
+
+  const { orgId, deckId } = JSON.parse(linkJson) as { orgId: string; deckId: string };
+  const metadata = await getDeckMetadata(orgId, deckId, env);
+  return metadata && metadata.visibility === 'unlisted' && metadata.shareToken === shareToken ? metadata : null;
+}
+
+/**
+ * Find a deck the viewer is allowed to see: their own organization's deck, a public deck,
+ * or an unlisted deck whose share link they hold. Returns null for anything else.
+ */
+export async function resolveVisibleDeck(
+  deckId: string,
+  viewerOrgId: string | null,
+  shareToken: string | undefined,
+  env: Env
+): Promise<DeckMetadata | null> {
+  if (viewerOrgId) {
+    const owned = await getDeckMetadata(viewerOrgId, deckId, env);
+    if (owned) return owned;
+  }
+
+  const publicOrgId = await env.DECKS.get(PUBLIC_DECK_PREFIX + deckId);
+  if (publicOrgId) {
+    const metadata = await getDeckMetadata(publicOrgId, deckId, env);
+    if (metadata && metadata.visibility === 'public') return metadata;
+  }
+
+  if (shareToken) {
+    const shared = await getSharedDeck(shareToken, env);
+    if (shared && shared.deckId === deckId) return shared;
+  }
+
+  return null;
+}
+
+/**
+ * Copy of a deck's metadata safe to show outside its organization
+ */
+export function toPublicMetadata(metadata: DeckMetadata): DeckMetadata {
+  const { shareToken, ...rest } = metadata;
+  return rest;
+}
+
+async function getDeckMetadata(orgId: string, deckId: string, env: Env): Promise<DeckMetadata | null> {
+  const metadataJson = await env.DECKS.get(deckKey(orgId, deckId, 'metadata'));
+  return metadataJson ? JSON.parse(metadataJson) : null;
+}
+
+function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
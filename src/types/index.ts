@@ -1,10 +1,37 @@
 // Game state types
-export type GamePhase = 'waiting' | 'presenting' | 'voting' | 'finished';
-export type VoteChoice = 'logical' | 'chaotic';
+export type GamePhase = 'waiting' | 'presenting' | 'voting' | 'scoring' | 'rating' | 'finished';
+export type VoteChoice = 'logical' | 'chaotic' | 'moderate' | 'wildcard' | 'callback';
+
+// Every choice a session can offer, in display order
+export const VOTE_CHOICES: VoteChoice[] = ['logical', 'chaotic', 'moderate', 'wildcard', 'callback'];
+
+// Choices backed by a precomputed neighbor list in the deck's adjacency data
+// (wildcard and callback are resolved at runtime from the slides already shown)
+export type AdjacencyDirection = 'logical' | 'chaotic' | 'moderate';
+
+// Ballot counts per choice (only the session's configured choices are present)
+export type VoteTally = Partial<Record<VoteChoice, number>>;
+
+// Optional tags voters can attach to their end-of-game rating
+export type RatingTag = 'funniest' | 'mostCreative' | 'smoothest' | 'bestRecovery';
+export const RATING_TAGS: RatingTag[] = ['funniest', 'mostCreative', 'smoothest', 'bestRecovery'];
+
+// How a round is decided when the vote is tied or too few people voted
+export type VoteResolutionPolicy = 'random' | 'presenter' | 'repeatPrevious' | 'runoff';
+export const VOTE_RESOLUTION_POLICIES: VoteResolutionPolicy[] = ['random', 'presenter', 'repeatPrevious', 'runoff'];
+export type VoteOutcomeReason = 'majority' | 'tie' | 'noQuorum';
 
 // Deck processing types
 export type DeckStatus = 'pending' | 'processing' | 'ready' | 'failed';
 
+// Who can see and play a deck: only its organization, anyone holding its share link, or everyone
+export type DeckVisibility = 'private' | 'unlisted' | 'public';
+export const DECK_VISIBILITIES: DeckVisibility[] = ['private', 'unlisted', 'public'];
+
+// What happens to a slide moderation marks unsafe. Either way it is left out of the adjacency data;
+// quarantined images are also no longer served from /slides.
+export type ModerationAction = 'flag' | 'quarantine';
+
 // Cloudflare Environment bindings (will be overridden by worker-configuration.d.ts)
 export interface Env {
   GAME_SESSION: DurableObjectNamespace;
@@ -12,6 +39,23 @@ export interface Env {
   DECKS: KVNamespace;
   AI: Ai;
   ASSETS: Fetcher;
+  VOTER_TOKEN_SECRET: string; // HMAC key for voter tokens (wrangler secret)
+  ADMIN_API_KEY: string;      // Creates organizations and their API keys (wrangler secret)
+  RATE_LIMITER: DurableObjectNamespace;
+  DECK_PROCESSOR: DurableObjectNamespace;
+  ALLOWED_ORIGINS?: string; // Comma-separated CORS allow-list (wrangler.toml vars, per environment)
+
+  // Rate limits as "capacity/periodSeconds" (wrangler.toml vars, per environment)
+  RATE_LIMIT_CREATE_SESSION?: string; // per IP
+  RATE_LIMIT_JOIN?: string;           // per IP, per session
+  RATE_LIMIT_VOTE_IP?: string;        // per IP, per session (votes, scores and ratings)
+  RATE_LIMIT_VOTE?: string;           // per voter (votes, scores and ratings)
+  RATE_LIMIT_WS_MESSAGES?: string;    // per WebSocket connection
+
+  // Slide moderation during deck processing (wrangler.toml vars, per environment)
+  MODERATION_MODE?: string;         // 'ai' (default) or 'stub' for offline development
+  MODERATION_ACTION?: string;       // 'quarantine' (default) or 'flag'
+  MODERATION_STUB_FLAGGED?: string; // Comma-separated slide IDs the stub reports as unsafe
 }
 
 // Slide data structure
@@ -29,49 +73,212 @@ export interface GameState {
   currentSlide: string;
   usedSlides: Set<string>;
   phase: GamePhase;
-  votes: {
-    logical: number;
-    chaotic: number;
-  };
+  choices: VoteChoice[]; // Options offered to the audience each round
+  votes: VoteTally;
   voters: Set<string>;
   votingOpen: boolean;
   timerEnd: number;
   timeRemaining?: number; // Optional for backwards compatibility
+  paused: boolean; // Host paused the current phase timer
+  pausedRemaining: number; // ms left on the timer when it was paused
   slideCount: number;
   maxSlides: number;
+  presentationDuration: number; // Base presentation window in ms
+  votingDuration: number; // Base voting window in ms
+  durationRamp?: DurationRamp; // Optional per-round adjustment of both windows
+  tieBreakPolicy: VoteResolutionPolicy;
+  noQuorumPolicy: VoteResolutionPolicy;
+  minTurnout: number; // Ballots needed for a round to count as quorate
+  runoffReason: VoteOutcomeReason | null; // Set while a runoff round is open
+  runoffChoices: VoteChoice[] | null; // Choices still in play during a runoff or presenter decision
+  runoffFirstPass: VoteTally | null; // Tally of the inconclusive first pass while its runoff is open
+  awaitingDecision: VoteOutcomeReason | null; // Set while waiting for the presenter to pick
+  lastResolution: VoteResolution | null; // How the most recent round was decided
+  roundStartedAt: number; // When the current slide started presenting
+  presenters: string[]; // Tournament roster in turn order (empty for a single presenter)
+  slidesPerTurn: number; // Slides each presenter gets in tournament mode
+}
+
+// Record of how a voting round was decided (broadcast as voteResult)
+export interface VoteResolution {
+  round: number;
+  votes: VoteTally;
+  totalVotes: number;
+  reason: VoteOutcomeReason; // Why the plain majority rule did or didn't apply
+  method: 'majority' | VoteResolutionPolicy; // How the winner was actually picked
+  winner: VoteChoice;
+  note?: string; // Human-readable explanation for fallbacks
+  slideFallback?: SlideFallback; // Set when the winner's precomputed neighbors were all used
+  firstPassVotes?: VoteTally; // Tally that forced a runoff (votes then holds the runoff's ballots)
+  resolvedAt: number;
+}
+
+// How the next slide was found once the winning direction's neighbors ran out
+export type SlideFallback = 'ranking' | 'anyUnused';
+
+// One resolved voting round (a row of the rounds table)
+export interface RoundSummary {
+  round: number;
+  slideId: string; // Slide that was presented this round
+  votes: VoteTally;
+  totalVotes: number;
+  winner: VoteChoice;
+  reason: VoteOutcomeReason;
+  method: VoteResolution['method'];
+  note: string | null;
+  nextSlide: string | null; // null when the game ended after this round
+  slideFallback: SlideFallback | null;
+  firstPassVotes: VoteTally | null; // Set when the round went to a runoff
+  startedAt: number;
+  resolvedAt: number;
+}
+
+// Response body of GET /session/:id/history (also sent as a history message)
+export interface GameHistoryResponse {
+  sessionId: string;
+  phase: GamePhase;
+  rounds: RoundSummary[];
+  path: string[]; // Every slide shown so far, in order
+}
+
+// Per-round adjustment applied to the phase durations (round 1 uses the base values)
+export interface DurationRamp {
+  presentationStep: number; // ms added each round (negative = slides get shorter)
+  votingStep: number; // ms added each round (negative = voting gets shorter)
+  minPresentation?: number; // Lower bound for the ramped presentation window (ms)
+  minVoting?: number; // Lower bound for the ramped voting window (ms)
+}
+
+// Game configuration accepted by GameSession.startGame
+export interface GameOptions {
+  presentationDuration?: number;
+  votingDuration?: number;
+  durationRamp?: DurationRamp;
+  choices?: VoteChoice[];
+  tieBreakPolicy?: VoteResolutionPolicy;
+  noQuorumPolicy?: VoteResolutionPolicy;
+  minTurnout?: number;
+  presenters?: string[]; // Two or more names turn the game into a tournament
+  slidesPerTurn?: number; // Slides per presenter in a tournament (replaces maxSlides)
+}
+
+// Bounds on GameOptions, checked by validateStartGameRequest (phase durations in ms)
+export const MIN_PHASE_DURATION = 3000;
+export const MAX_PHASE_DURATION = 10 * 60 * 1000;
+export const MIN_VOTE_CHOICES = 2;
+export const MIN_PRESENTERS = 2;
+export const MAX_PRESENTERS = 20;
+export const MAX_PRESENTER_NAME_LENGTH = 40;
+
+// Tournament standings for one presenter
+export interface LeaderboardEntry {
+  presenter: string;
+  turn: number; // 0-based position in the roster
+  scores: number; // Number of audience scores received
+  totalScore: number;
+  averageScore: number | null; // null until someone has scored the presenter
+  rank: number | null;
+}
+
+// Aggregated end-of-game ratings
+export interface RatingSummary {
+  ratings: number;
+  averageScore: number | null; // null until someone has rated
+  distribution: number[]; // Count per score, index 0 = 1 star
+  tags: Partial<Record<RatingTag, number>>;
 }
 
 // API request/response types
+// Vote, score and rating requests identify the voter by their token, not the body
 export interface VoteRequest {
-  userId: string;
   choice: VoteChoice;
 }
 
+export interface ScoreRequest {
+  score: number; // 1-5
+}
+
+export interface RatingRequest {
+  score: number; // 1-5
+  tags?: RatingTag[];
+}
+
+// Body of every 400 response for a request that fails validation
+export interface FieldError {
+  field: string; // e.g. "choice", "durationRamp.votingStep", "tags[1]"
+  message: string;
+}
+
+export interface ValidationErrorResponse {
+  success: false;
+  error: string;
+  errors: FieldError[];
+}
+
+export interface JoinResponse {
+  success: boolean;
+  userId: string;
+  token: string; // Also set as the voter_token cookie
+}
+
 export interface VoteResult {
   success: boolean;
   error?: string;
-  currentVotes?: {
-    logical: number;
-    chaotic: number;
-  };
+  currentVotes?: VoteTally;
 }
 
 export interface GameStatusResponse {
   sessionId: string;
   currentSlide: string;
   phase: GamePhase;
-  votes: {
-    logical: number;
-    chaotic: number;
-  };
+  choices: VoteChoice[];
+  votes: VoteTally;
   timeRemaining: number;
   slideCount: number;
+  maxSlides: number;
   votingOpen: boolean;
+  paused: boolean;
+  presentationDuration: number; // Presentation window for the current round (ms)
+  votingDuration: number; // Voting window for the current round (ms)
+  durationRamp: DurationRamp | null;
+  tieBreakPolicy: VoteResolutionPolicy;
+  noQuorumPolicy: VoteResolutionPolicy;
+  minTurnout: number;
+  runoff: boolean;
+  runoffChoices: VoteChoice[] | null;
+  awaitingDecision: VoteOutcomeReason | null;
+  lastResolution: VoteResolution | null;
+  presenters: string[];
+  currentPresenter: string | null;
+  slidesPerTurn: number;
+  scoringDuration: number; // Length of the scoring window after each turn (ms)
+  leaderboard: LeaderboardEntry[];
+  ratingDuration: number; // Length of the end-of-game rating window (ms)
+  rating: RatingSummary;
 }
 
-export interface StartGameRequest {
+export interface StartGameRequest extends GameOptions {
   deckId: string;
   maxSlides?: number;
+  shareToken?: string; // Share link token for another organization's unlisted deck
+}
+
+export interface DecideRequest {
+  choice: VoteChoice;
+}
+
+export interface ExtendTimerRequest {
+  duration?: number; // ms to add to the current phase (defaults to 15s)
+}
+
+// Host timer controls (broadcast in timerUpdate messages)
+export type TimerAction = 'pause' | 'resume' | 'extend' | 'skip' | 'closeVoting';
+
+export interface TimerUpdate {
+  action: TimerAction;
+  phase: GamePhase;
+  paused: boolean;
+  timeRemaining: number;
 }
 
 // WebSocket message types
@@ -80,6 +287,10 @@ export type WebSocketMessageType =
   | 'voteUpdate'
   | 'slideChange'
   | 'timerUpdate'
+  | 'voteResult'
+  | 'history'
+  | 'leaderboard'
+  | 'ratingUpdate'
   | 'error'
   | 'pong';
 
@@ -97,8 +308,7 @@ export interface SqlRow {
 // SQLite schema types for type safety
 export interface AdjacencyRecord extends SqlRow {
   slide_id: string;
-  logical_slides: string; // JSON string
-  chaotic_slides: string; // JSON string
+  neighbors: string; // JSON SlideNeighbors
 }
 
 export interface GameRecord extends SqlRow {
@@ -109,11 +319,44 @@ export interface GameRecord extends SqlRow {
   slide_count: number;
   max_slides: number;
   timer_end: number;
+  presentation_duration: number;
+  voting_duration: number;
+  duration_ramp: string | null; // JSON string
+  paused: number; // 0 or 1
+  paused_remaining: number;
+  tie_break_policy: string; // Will be cast to VoteResolutionPolicy
+  no_quorum_policy: string; // Will be cast to VoteResolutionPolicy
+  min_turnout: number;
+  choices: string; // JSON array of VoteChoice
+  runoff_reason: string | null;
+  runoff_choices: string | null; // JSON array of VoteChoice
+  runoff_first_pass: string | null; // JSON VoteTally
+  awaiting_decision: string | null;
+  last_resolution: string | null; // JSON string
+  round_started_at: number;
+  presenters: string; // JSON array of presenter names
+  slides_per_turn: number;
   created_at: number;
   updated_at: number;
 }
 
 // Type guards for SQL results
+export interface RoundRecord extends SqlRow {
+  round: number;
+  slide_id: string;
+  votes: string; // JSON VoteTally
+  total_votes: number;
+  winner: string;
+  reason: string;
+  method: string;
+  note: string | null;
+  next_slide: string | null;
+  slide_fallback: string | null;
+  first_pass_votes: string | null; // JSON VoteTally
+  started_at: number;
+  resolved_at: number;
+}
+
 export function isGameRecord(row: SqlRow): row is GameRecord {
   return typeof row === 'object' && row !== null &&
     typeof row.session_id === 'string' &&
@@ -122,14 +365,32 @@ export function isGameRecord(row: SqlRow): row is GameRecord {
     typeof row.phase === 'string' &&
     typeof row.slide_count === 'number' &&
     typeof row.max_slides === 'number' &&
-    typeof row.timer_end === 'number';
+    typeof row.timer_end === 'number' &&
+    typeof row.presentation_duration === 'number' &&
+    typeof row.voting_duration === 'number' &&
+    typeof row.paused === 'number' &&
+    typeof row.paused_remaining === 'number' &&
+    typeof row.tie_break_policy === 'string' &&
+    typeof row.no_quorum_policy === 'string' &&
+    typeof row.min_turnout === 'number' &&
+    typeof row.choices === 'string' &&
+    typeof row.round_started_at === 'number';
 }
 
 export function isAdjacencyRecord(row: SqlRow): row is AdjacencyRecord {
   return typeof row === 'object' && row !== null &&
     typeof row.slide_id === 'string' &&
-    typeof row.logical_slides === 'string' &&
-    typeof row.chaotic_slides === 'string';
+    typeof row.neighbors === 'string';
+}
+
+export function isRoundRecord(row: SqlRow): row is RoundRecord {
+  return typeof row === 'object' && row !== null &&
+    typeof row.round === 'number' &&
+    typeof row.slide_id === 'string' &&
+    typeof row.votes === 'string' &&
+    typeof row.winner === 'string' &&
+    typeof row.started_at === 'number' &&
+    typeof row.resolved_at === 'number';
 }
 
 // WebSocket connection metadata (attached to WebSocket for hibernation)
@@ -137,18 +398,124 @@ export interface ConnectionMetadata {
   userId?: string;
   joinedAt: number;
   lastActivity: number;
+  rateLimit?: TokenBucket; // Message budget for this connection
+}
+
+// Rate limiting (token buckets)
+export interface RateLimit {
+  capacity: number;      // Burst size
+  periodSeconds: number; // Time to refill an empty bucket
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds until the next token, 0 when allowed
 }
 
 // Deck management types
 export interface DeckMetadata {
   deckId: string;
+  orgId: string; // Owning organization
   name: string;
   description?: string;
+  visibility?: DeckVisibility; // Absent for decks created before visibility existed (treated as private)
+  shareToken?: string; // Set while the deck is unlisted; only shown to the owner
   slideCount: number;
   status: DeckStatus;
   createdAt: number;
   processedAt?: number;
   error?: string;
+  flaggedSlides?: SlideModerationFlag[]; // From the last processing run
+  processedSlides?: number; // Progress of the current (or last) processing run
+  currentStep?: string;
+}
+
+// One slide of a deck, as uploaded; the manifest's order is the deck's slide order
+export interface SlideManifestEntry {
+  slideId: string;
+  filename: string;     // Original filename (or the slide ID for slides uploaded before manifests)
+  contentType: string;
+  size: number;         // Bytes
+  order: number;        // 1-based position in the deck
+  title?: string;
+  uploadedAt: number;
+}
+
+export interface SlideManifest {
+  deckId: string;
+  slides: SlideManifestEntry[];
+  updatedAt: number;
+}
+
+export interface SlideManifestResponse {
+  success: boolean;
+  slides?: SlideManifestEntry[];
+  error?: string;
+}
+
+export interface ReorderSlidesRequest {
+  slideIds: string[];
+}
+
+// The deck a game session has loaded (stored in do_metadata so the room can serve its slides)
+export interface LoadedDeck {
+  orgId: string;
+  deckId: string;
+  visibility: DeckVisibility;
+}
+
+// Where one slide is in a processing run: queued -> described -> moderated -> embedded,
+// or flagged by moderation, or failed (with an error; the run retries it)
+export type SlideProcessingStep = 'queued' | 'described' | 'moderated' | 'embedded' | 'flagged' | 'failed';
+
+export interface SlideProgress {
+  slideId: string;
+  step: SlideProcessingStep;
+  error?: string;
+  updatedAt: number;
+}
+
+// Full progress of a run, sent as the first (snapshot) and last (done) event of /api/decks/:deckId/progress
+export interface DeckProgress extends ProcessingStatus {
+  slides: SlideProgress[];
+}
+
+// Incremental progress event: the run's summary plus the slide that just changed, if any
+export interface DeckProgressEvent extends ProcessingStatus {
+  slide?: SlideProgress;
+}
+
+// Checkpointed state of a deck's processing run, held by its DeckProcessor
+export interface DeckProcessingJob {
+  orgId: string;
+  deckId: string;
+  slideIds: string[];
+  nextIndex: number; // Slides before this index are done
+  safeSlideIds: string[]; // Slides that passed moderation and have a stored embedding
+  flaggedSlides: SlideModerationFlag[];
+  attempts: number; // Consecutive failed batches (reset after each success)
+  startedAt: number;
+}
+
+export interface ModerationResult {
+  safe: boolean;
+  categories: string[]; // Hazard categories reported by the moderator (empty when safe)
+}
+
+export interface SlideModerationFlag {
+  slideId: string;
+  categories: string[];
+  action: ModerationAction;
+}
+
+// Deck as returned by GET /api/decks
+export interface DeckListEntry extends DeckMetadata {
+  owned: boolean; // false for other organizations' public decks
 }
 
 export interface SlideEmbedding {
@@ -168,6 +535,15 @@ export interface ProcessingStatus {
   status: DeckStatus;
   currentStep?: string;
   error?: string;
+  flaggedSlides?: SlideModerationFlag[];
+}
+
+// Precomputed neighbors of one slide, as stored in the deck's adjacency data
+export interface SlideNeighbors {
+  logical: string[];  // Most similar slide IDs
+  chaotic: string[];  // Least similar slide IDs
+  moderate?: string[]; // Middle-similarity slide IDs (absent for decks processed before it existed)
+  ranking?: string[]; // Every other slide ID, most to least similar (used once the neighbors run out)
 }
 
 export interface SimilarityScore {
@@ -178,11 +554,24 @@ export interface SimilarityScore {
 export interface CreateDeckRequest {
   name: string;
   description?: string;
+  visibility?: DeckVisibility;
+}
+
+export interface UpdateVisibilityRequest {
+  visibility: DeckVisibility;
+}
+
+export interface UpdateVisibilityResponse {
+  success: boolean;
+  visibility?: DeckVisibility;
+  shareUrl?: string; // Only for unlisted decks
+  error?: string;
 }
 
 export interface CreateDeckResponse {
   success: boolean;
   deckId?: string;
+  shareUrl?: string; // Only for decks created unlisted
   error?: string;
 }
 
@@ -195,6 +584,25 @@ export interface UploadSlideRequest {
 export interface UploadSlideResponse {
   success: boolean;
   slideId?: string;
+  replaced?: boolean;   // The slide ID already existed, so its image was replaced
+  slideCount?: number;
+  error?: string;
+}
+
+// One line of the upload-archive report, for every file in the ZIP
+export interface ArchiveFileReport {
+  filename: string;
+  status: 'uploaded' | 'skipped' | 'failed';
+  slideId?: string; // Only for uploaded files
+  size?: number;
+  reason?: string;  // Why the file was skipped or failed
+}
+
+export interface UploadArchiveResponse {
+  success: boolean;
+  uploaded?: number;
+  slideCount?: number;
+  files?: ArchiveFileReport[];
   error?: string;
 }
 
@@ -206,4 +614,38 @@ export interface ProcessDeckResponse {
   success: boolean;
   status?: ProcessingStatus;
   error?: string;
-}
\ No newline at end of file
+}
+// Tenancy types
+export interface Organization {
+  orgId: string;
+  name: string;
+  createdAt: number;
+}
+
+// Stored under the SHA-256 of the key; the plaintext key is never persisted
+export interface ApiKeyRecord {
+  orgId: string;
+  label: string;
+  createdAt: number;
+}
+
+export interface CreateOrganizationRequest {
+  name: string;
+}
+
+export interface CreateOrganizationResponse {
+  success: boolean;
+  orgId?: string;
+  apiKey?: string;
+  error?: string;
+}
+
+export interface CreateApiKeyRequest {
+  label?: string;
+}
+
+export interface CreateApiKeyResponse {
+  success: boolean;
+  apiKey?: string;
+  error?: string;
+}
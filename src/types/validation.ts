@@ -0,0 +1,405 @@
+import {
+  VoteRequest,
+  ScoreRequest,
+  RatingRequest,
+  DecideRequest,
+  ExtendTimerRequest,
+  StartGameRequest,
+  CreateDeckRequest,
+  UpdateVisibilityRequest,
+  CreateOrganizationRequest,
+  CreateApiKeyRequest,
+  ReorderSlidesRequest,
+  DurationRamp,
+  FieldError,
+  VOTE_CHOICES,
+  RATING_TAGS,
+  VOTE_RESOLUTION_POLICIES,
+  DECK_VISIBILITIES,
+  MIN_PHASE_DURATION,
+  MAX_PHASE_DURATION,
+  MIN_VOTE_CHOICES,
+  MIN_PRESENTERS,
+  MAX_PRESENTERS,
+  MAX_PRESENTER_NAME_LENGTH,
+} from './index';
+
+/**
+ * Runtime validators for API request bodies
+ *
+ * Each validator checks the shape of an untrusted body (types, known enum
+ * values, static ranges) and returns either the typed request or a list of
+ * field errors. Game rules that depend on session state (deck size, whether
+ * the deck has moderate neighbors, the current phase) are still enforced by
+ * GameSession.
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+const MAX_DECK_NAME_LENGTH = 100;
+const MAX_DECK_DESCRIPTION_LENGTH = 500;
+const MAX_ID_LENGTH = 100;
+const MAX_ORG_NAME_LENGTH = 100;
+const MAX_API_KEY_LABEL_LENGTH = 100;
+const MAX_SLIDE_TITLE_LENGTH = 200; // Stored as R2 custom metadata, which is capped at 2KB
+
+// Deck and slide IDs end up in KV keys and R2 paths
+const ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export function validateVoteRequest(body: unknown): ValidationResult<VoteRequest> {
+  return validate(body, (input, errors) => ({
+    choice: requireOneOf(input, 'choice', VOTE_CHOICES, errors)
+  }));
+}
+
+export function validateDecideRequest(body: unknown): ValidationResult<DecideRequest> {
+  return validate(body, (input, errors) => ({
+    choice: requireOneOf(input, 'choice', VOTE_CHOICES, errors)
+  }));
+}
+
+export function validateScoreRequest(body: unknown): ValidationResult<ScoreRequest> {
+  return validate(body, (input, errors) => ({
+    score: requireInteger(input, 'score', errors)
+  }));
+}
+
+export function validateRatingRequest(body: unknown): ValidationResult<RatingRequest> {
+  return validate(body, (input, errors) => ({
+    score: requireInteger(input, 'score', errors),
+    tags: optionalListOf(input, 'tags', RATING_TAGS, errors)
+  }));
+}
+
+export function validateExtendTimerRequest(body: unknown): ValidationResult<ExtendTimerRequest> {
+  return validate(body, (input, errors) => {
+    const duration = optionalNumber(input, 'duration', errors);
+    if (duration !== undefined && (duration <= 0 || duration > MAX_PHASE_DURATION)) {
+      errors.push({ field: 'duration', message: `must be between 1 and ${MAX_PHASE_DURATION} ms` });
+    }
+    return { duration };
+  });
+}
+
+export function validateStartGameRequest(body: unknown): ValidationResult<StartGameRequest> {
+  return validate(body, (input, errors) => {
+    const maxSlides = optionalInteger(input, 'maxSlides', errors);
+    if (maxSlides !== undefined && maxSlides < 1) {
+      errors.push({ field: 'maxSlides', message: 'must be at least 1' });
+    }
+
+    const choices = optionalListOf(input, 'choices', VOTE_CHOICES, errors);
+    if (choices !== undefined) {
+      if (choices.length < MIN_VOTE_CHOICES || choices.length > VOTE_CHOICES.length) {
+        errors.push({ field: 'choices', message: `must list between ${MIN_VOTE_CHOICES} and ${VOTE_CHOICES.length} options` });
+      }
+      if (new Set(choices).size !== choices.length) {
+        errors.push({ field: 'choices', message: 'must not contain duplicates' });
+      }
+    }
+
+    const minTurnout = optionalInteger(input, 'minTurnout', errors);
+    if (minTurnout !== undefined && minTurnout < 0) {
+      errors.push({ field: 'minTurnout', message: 'must not be negative' });
+    }
+
+    const presenters = optionalStringList(input, 'presenters', errors);
+    if (presenters !== undefined) {
+      if (presenters.length < MIN_PRESENTERS || presenters.length > MAX_PRESENTERS) {
+        errors.push({ field: 'presenters', message: `must list between ${MIN_PRESENTERS} and ${MAX_PRESENTERS} names` });
+      }
+      presenters.forEach((name, index) => {
+        if (typeof name === 'string' && (!name.trim() || name.length > MAX_PRESENTER_NAME_LENGTH)) {
+          errors.push({ field: `presenters[${index}]`, message: `must be 1-${MAX_PRESENTER_NAME_LENGTH} characters` });
+        }
+      });
+      if (new Set(presenters).size !== presenters.length) {
+        errors.push({ field: 'presenters', message: 'must not contain duplicates' });
+      }
+    }
+
+    const slidesPerTurn = optionalInteger(input, 'slidesPerTurn', errors);
+    if (slidesPerTurn !== undefined && slidesPerTurn < 1) {
+      errors.push({ field: 'slidesPerTurn', message: 'must be at least 1' });
+    }
+
+    return {
+      deckId: requireId(input, 'deckId', errors),
+      shareToken: optionalString(input, 'shareToken', errors),
+      maxSlides,
+      presentationDuration: optionalDuration(input, 'presentationDuration', errors),
+      votingDuration: optionalDuration(input, 'votingDuration', errors),
+      durationRamp: optionalDurationRamp(input, errors),
+      choices,
+      tieBreakPolicy: optionalOneOf(input, 'tieBreakPolicy', VOTE_RESOLUTION_POLICIES, errors),
+      noQuorumPolicy: optionalOneOf(input, 'noQuorumPolicy', VOTE_RESOLUTION_POLICIES, errors),
+      minTurnout,
+      presenters,
+      slidesPerTurn
+    };
+  });
+}
+
+export function validateCreateDeckRequest(body: unknown): ValidationResult<CreateDeckRequest> {
+  return validate(body, (input, errors) => {
+    const name = requireString(input, 'name', errors);
+    if (name !== undefined && (!name.trim() || name.length > MAX_DECK_NAME_LENGTH)) {
+      errors.push({ field: 'name', message: `must be 1-${MAX_DECK_NAME_LENGTH} characters` });
+    }
+
+    const description = optionalString(input, 'description', errors);
+    if (description !== undefined && description.length > MAX_DECK_DESCRIPTION_LENGTH) {
+      errors.push({ field: 'description', message: `must be at most ${MAX_DECK_DESCRIPTION_LENGTH} characters` });
+    }
+
+    return {
+      name: name as string,
+      description,
+      visibility: optionalOneOf(input, 'visibility', DECK_VISIBILITIES, errors)
+    };
+  });
+}
+
+export function validateUpdateVisibilityRequest(body: unknown): ValidationResult<UpdateVisibilityRequest> {
+  return validate(body, (input, errors) => ({
+    visibility: requireOneOf(input, 'visibility', DECK_VISIBILITIES, errors)
+  }));
+}
+
+export function validateCreateOrganizationRequest(body: unknown): ValidationResult<CreateOrganizationRequest> {
+  return validate(body, (input, errors) => {
+    const name = requireString(input, 'name', errors);
+    if (name !== undefined && (!name.trim() || name.length > MAX_ORG_NAME_LENGTH)) {
+      errors.push({ field: 'name', message: `must be 1-${MAX_ORG_NAME_LENGTH} characters` });
+    }
+
+    return { name: name as string };
+  });
+}
+
+export function validateCreateApiKeyRequest(body: unknown): ValidationResult<CreateApiKeyRequest> {
+  return validate(body, (input, errors) => {
+    const label = optionalString(input, 'label', errors);
+    if (label !== undefined && label.length > MAX_API_KEY_LABEL_LENGTH) {
+      errors.push({ field: 'label', message: `must be at most ${MAX_API_KEY_LABEL_LENGTH} characters` });
+    }
+
+    return { label };
+  });
+}
+
+export function validateReorderSlidesRequest(body: unknown): ValidationResult<ReorderSlidesRequest> {
+  return validate(body, (input, errors) => {
+    if (isMissing(input, 'slideIds')) {
+      errors.push({ field: 'slideIds', message: 'is required' });
+    }
+    const slideIds = optionalStringList(input, 'slideIds', errors) ?? [];
+    if (new Set(slideIds).size !== slideIds.length) {
+      errors.push({ field: 'slideIds', message: 'must not repeat a slide ID' });
+    }
+
+    return { slideIds };
+  });
+}
+
+// Multipart upload: a slide ID that is safe to use as an R2 key, plus an image file
+export function validateUploadSlideForm(formData: FormData): ValidationResult<{ slideId: string; image: File; title?: string }> {
+  const errors: FieldError[] = [];
+  const slideId = requireId({ slideId: formData.get('slideId') ?? undefined }, 'slideId', errors);
+  const slide = checkSlideImageForm(formData, errors);
+
+  return errors.length > 0 ?
+    { ok: false, errors } :
+    { ok: true, value: { slideId, ...slide } };
+}
+
+// Multipart replacement of an existing slide (the slide ID comes from the URL)
+export function validateReplaceSlideForm(formData: FormData): ValidationResult<{ image: File; title?: string }> {
+  const errors: FieldError[] = [];
+  const slide = checkSlideImageForm(formData, errors);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: slide };
+}
+
+// Multipart upload: a ZIP of slide images (its contents are checked while unpacking)
+export function validateUploadArchiveForm(formData: FormData): ValidationResult<{ archive: File }> {
+  const archive = formData.get('archive');
+  return archive instanceof File ?
+    { ok: true, value: { archive } } :
+    { ok: false, errors: [{ field: 'archive', message: 'is required and must be a ZIP file' }] };
+}
+
+// The image file and optional title shared by slide uploads and replacements
+function checkSlideImageForm(formData: FormData, errors: FieldError[]): { image: File; title?: string } {
+  const title = optionalString({ title: formData.get('title') ?? undefined }, 'title', errors);
+  if (title !== undefined && title.length > MAX_SLIDE_TITLE_LENGTH) {
+    errors.push({ field: 'title', message: `must be at most ${MAX_SLIDE_TITLE_LENGTH} characters` });
+  }
+
+  const image = formData.get('image');
+  if (!(image instanceof File)) {
+    errors.push({ field: 'image', message: 'is required and must be a file' });
+  } else if (image.type && !image.type.startsWith('image/')) {
+    errors.push({ field: 'image', message: `must be an image (got ${image.type})` });
+  }
+
+  return { image: image as File, title: title || undefined };
+}
+
+// Field helpers: each records an error for a wrong type and returns the value (or undefined) otherwise
+
+type Input = Record<string, unknown>;
+
+function validate<T>(body: unknown, build: (input: Input, errors: FieldError[]) => T): ValidationResult<T> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value = build(body as Input, errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+function isMissing(input: Input, field: string): boolean {
+  return !Object.prototype.hasOwnProperty.call(input, field) || input[field] === undefined || input[field] === null;
+}
+
+function requireString(input: Input, field: string, errors: FieldError[]): string | undefined {
+  if (isMissing(input, field)) {
+    errors.push({ field, message: 'is required' });
+    return undefined;
+  }
+  return optionalString(input, field, errors);
+}
+
+function optionalString(input: Input, field: string, errors: FieldError[]): string | undefined {
+  if (isMissing(input, field)) return undefined;
+  if (typeof input[field] !== 'string') {
+    errors.push({ field, message: 'must be a string' });
+    return undefined;
+  }
+  return input[field] as string;
+}
+
+function requireId(input: Input, field: string, errors: FieldError[]): string {
+  const value = requireString(input, field, errors);
+  if (value !== undefined && (!ID_PATTERN.test(value) || value.length > MAX_ID_LENGTH || value.startsWith('.'))) {
+    errors.push({ field, message: `must be 1-${MAX_ID_LENGTH} letters, digits, '_', '-' or '.'` });
+  }
+  return value as string;
+}
+
+function optionalNumber(input: Input, field: string, errors: FieldError[]): number | undefined {
+  if (isMissing(input, field)) return undefined;
+  if (typeof input[field] !== 'number' || !Number.isFinite(input[field])) {
+    errors.push({ field, message: 'must be a number' });
+    return undefined;
+  }
+  return input[field] as number;
+}
+
+function requireNumber(input: Input, field: string, errors: FieldError[]): number {
+  if (isMissing(input, field)) {
+    errors.push({ field, message: 'is required' });
+  }
+  return optionalNumber(input, field, errors) as number;
+}
+
+// A phase duration in ms, within the bounds the game timers accept
+function optionalDuration(input: Input, field: string, errors: FieldError[]): number | undefined {
+  const value = optionalNumber(input, field, errors);
+  if (value !== undefined && (value < MIN_PHASE_DURATION || value > MAX_PHASE_DURATION)) {
+    errors.push({ field, message: `must be between ${MIN_PHASE_DURATION} and ${MAX_PHASE_DURATION} ms` });
+  }
+  return value;
+}
+
+function optionalInteger(input: Input, field: string, errors: FieldError[]): number | undefined {
+  if (isMissing(input, field)) return undefined;
+  if (!Number.isInteger(input[field])) {
+    errors.push({ field, message: 'must be an integer' });
+    return undefined;
+  }
+  return input[field] as number;
+}
+
+function requireInteger(input: Input, field: string, errors: FieldError[]): number {
+  if (isMissing(input, field)) {
+    errors.push({ field, message: 'is required' });
+  }
+  return optionalInteger(input, field, errors) as number;
+}
+
+function optionalOneOf<T extends string>(input: Input, field: string, allowed: readonly T[], errors: FieldError[]): T | undefined {
+  if (isMissing(input, field)) return undefined;
+  if (!allowed.includes(input[field] as T)) {
+    errors.push({ field, message: `must be one of: ${allowed.join(', ')}` });
+    return undefined;
+  }
+  return input[field] as T;
+}
+
+function requireOneOf<T extends string>(input: Input, field: string, allowed: readonly T[], errors: FieldError[]): T {
+  if (isMissing(input, field)) {
+    errors.push({ field, message: 'is required' });
+  }
+  return optionalOneOf(input, field, allowed, errors) as T;
+}
+
+function optionalListOf<T extends string>(input: Input, field: string, allowed: readonly T[], errors: FieldError[]): T[] | undefined {
+  if (isMissing(input, field)) return undefined;
+
+  const list = input[field];
+  if (!Array.isArray(list)) {
+    errors.push({ field, message: 'must be an array' });
+    return undefined;
+  }
+
+  list.forEach((item, index) => {
+    if (!allowed.includes(item as T)) {
+      errors.push({ field: `${field}[${index}]`, message: `must be one of: ${allowed.join(', ')}` });
+    }
+  });
+  return list as T[];
+}
+
+function optionalStringList(input: Input, field: string, errors: FieldError[]): string[] | undefined {
+  if (isMissing(input, field)) return undefined;
+
+  const list = input[field];
+  if (!Array.isArray(list)) {
+    errors.push({ field, message: 'must be an array' });
+    return undefined;
+  }
+
+  list.forEach((item, index) => {
+    if (typeof item !== 'string') {
+      errors.push({ field: `${field}[${index}]`, message: 'must be a string' });
+    }
+  });
+  return list as string[];
+}
+
+function optionalDurationRamp(input: Input, errors: FieldError[]): DurationRamp | undefined {
+  if (isMissing(input, 'durationRamp')) return undefined;
+
+  const ramp = input.durationRamp;
+  if (typeof ramp !== 'object' || ramp === null || Array.isArray(ramp)) {
+    errors.push({ field: 'durationRamp', message: 'must be an object' });
+    return undefined;
+  }
+
+  const rampInput = ramp as Input;
+  const rampErrors: FieldError[] = [];
+  const value: DurationRamp = {
+    presentationStep: requireNumber(rampInput, 'presentationStep', rampErrors),
+    votingStep: requireNumber(rampInput, 'votingStep', rampErrors),
+    minPresentation: optionalDuration(rampInput, 'minPresentation', rampErrors),
+    minVoting: optionalDuration(rampInput, 'minVoting', rampErrors)
+  };
+
+  errors.push(...rampErrors.map(error => ({ ...error, field: `durationRamp.${error.field}` })));
+  return value;
+}
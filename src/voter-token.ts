@@ -0,0 +1,70 @@
+/**
+ * Voter tokens for Battle Decks
+ *
+ * The join endpoint hands each audience member a server-issued identity:
+ *   <userId>.<signature>
+ * where the signature is HMAC-SHA256(VOTER_TOKEN_SECRET, "<sessionId>:<gameNonce>:<userId>").
+ *
+ * Binding the session ID into the signature means a token only works in the
+ * room it was issued for, and votes can no longer be cast under made-up IDs.
+ * Room codes are recycled, so the room also mints a nonce each time it is
+ * initialized (GameSession.getGameNonce): tokens from an earlier game on the
+ * same code stop working.
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Mint a fresh voter identity for a session
+ */
+export async function issueVoterToken(
+  secret: string,
+  sessionId: string,
+  gameNonce: string
+): Promise<{ userId: string; token: string }> {
+  const userId = `user_${crypto.randomUUID().replace(/-/g, '')}`;
+  const signature = await sign(secret, sessionId, gameNonce, userId);
+  return { userId, token: `${userId}.${signature}` };
+}
+
+/**
+ * Check a voter token against the session it claims to belong to
+ * Returns the voter's userId, or null for missing, malformed or forged tokens
+ */
+export async function verifyVoterToken(
+  secret: string,
+  sessionId: string,
+  gameNonce: string,
+  token: string | null | undefined
+): Promise<string | null> {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const userId = token.substring(0, separator);
+  const expected = encoder.encode(await sign(secret, sessionId, gameNonce, userId));
+  const actual = encoder.encode(token.substring(separator + 1));
+
+  if (expected.byteLength !== actual.byteLength || !crypto.subtle.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return userId;
+}
+
+async function sign(secret: string, sessionId: string, gameNonce: string, userId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${sessionId}:${gameNonce}:${userId}`));
+
+  // base64url keeps the token cookie- and header-safe
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
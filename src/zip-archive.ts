@@ -0,0 +1,175 @@
+/**
+ * ZIP reading for Battle Decks
+ *
+ * Deck archives are unpacked inside the Worker, so this is a small reader for
+ * plain ZIP files rather than a dependency:
+ *   1. Find the end-of-central-directory record at the back of the file
+ *   2. Walk the central directory for each entry's name, method and sizes
+ *   3. Inflate an entry on demand (stored or deflate) with DecompressionStream
+ *
+ * ZIP64, encrypted and multi-disk archives are rejected. Sizes come from the
+ * central directory, so archives written with data descriptors work too.
+ */
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  encrypted: boolean;
+  method: number;          // 0 = stored, 8 = deflate
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const decoder = new TextDecoder();
+
+/**
+ * List the entries of a ZIP archive (directories excluded), in archive order
+ * Throws if the buffer isn't a ZIP file this reader supports
+ */
+export function readZipEntries(archive: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(archive);
+  const eocdOffset = findEndOfCentralDirectory(view);
+
+  const diskNumber = view.getUint16(eocdOffset + 4, true);
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  const directoryOffset = view.getUint32(eocdOffset + 16, true);
+
+  if (diskNumber !== 0) {
+    throw new Error('Multi-part ZIP archives are not supported');
+  }
+  if (directoryOffset === ZIP64_MARKER || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(archive, offset + 46, nameLength));
+
+    if (compressedSize === ZIP64_MARKER || uncompressedSize === ZIP64_MARKER || localHeaderOffset === ZIP64_MARKER) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        compressedSize,
+        uncompressedSize,
+        encrypted: (flags & 0x1) !== 0,
+        method,
+        localHeaderOffset,
+      });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Decompress one entry's contents, inflating at most maxBytes
+ * The directory's uncompressedSize is untrusted, so output is counted as it streams:
+ * an entry that inflates past its declared size (or maxBytes) is abandoned mid-stream
+ */
+export async function readZipEntry(archive: ArrayBuffer, entry: ZipEntry, maxBytes: number): Promise<Uint8Array> {
+  if (entry.encrypted) {
+    throw new Error('Encrypted entries are not supported');
+  }
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new Error(`Unsupported compression method ${entry.method}`);
+  }
+
+  const view = new DataView(archive);
+  const headerOffset = entry.localHeaderOffset;
+  if (headerOffset + 30 > view.byteLength || view.getUint32(headerOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Corrupt ZIP local header');
+  }
+
+  // The local header's name and extra field can differ in length from the central directory's
+  const dataOffset = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+  if (dataOffset + entry.compressedSize > view.byteLength) {
+    throw new Error('Entry extends past the end of the archive');
+  }
+
+  if (entry.uncompressedSize > maxBytes) {
+    throw new Error(`Entry is larger than ${maxBytes} bytes`);
+  }
+
+  const compressed = new Uint8Array(archive, dataOffset, entry.compressedSize);
+  const contents = entry.method === METHOD_STORED ?
+    compressed.slice() :
+    await inflate(compressed, entry.uncompressedSize);
+
+  if (contents.byteLength !== entry.uncompressedSize) {
+    throw new Error('Entry size does not match the ZIP directory');
+  }
+  return contents;
+}
+
+/**
+ * Compare names the way people number files: slide2 before slide10
+ */
+export const naturalCompare = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' }).compare;
+
+// Inflate raw deflate data, giving up as soon as the output passes limit bytes
+async function inflate(compressed: Uint8Array, limit: number): Promise<Uint8Array> {
+  const reader = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new Error('Entry inflates past the size in the ZIP directory');
+    }
+    chunks.push(value);
+  }
+
+  const contents = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    contents.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return contents;
+}
+
+// The record sits at the very end, unless the archive has a comment
+function findEndOfCentralDirectory(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - EOCD_MIN_LENGTH - MAX_COMMENT_LENGTH);
+
+  for (let offset = view.byteLength - EOCD_MIN_LENGTH; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
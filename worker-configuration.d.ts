@@ -1,14 +1,24 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: fbc22ef639cfee612187cc9b67bacc13)
+// Generated by Wrangler by running `wrangler types` (hash: 04e507fdef9ee194a6460ffd4aa49980)
 // Runtime types generated with workerd@1.20250917.0 2025-09-23 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "GameSession";
+		durableNamespaces: "GameSession" | "RateLimiter" | "DeckProcessor";
 	}
 	interface Env {
 		DECKS: KVNamespace;
+		ALLOWED_ORIGINS: "" | "http://localhost:8787,http://127.0.0.1:8787";
+		RATE_LIMIT_CREATE_SESSION: "5/60" | "20/60";
+		RATE_LIMIT_JOIN: "100/60" | "500/60";
+		RATE_LIMIT_VOTE_IP: "300/10" | "1000/10";
+		RATE_LIMIT_VOTE: "5/10" | "10/10";
+		RATE_LIMIT_WS_MESSAGES: "20/10" | "50/10";
+		MODERATION_MODE: "ai";
+		MODERATION_ACTION: "quarantine";
 		GAME_SESSION: DurableObjectNamespace<import("./src/index").GameSession>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		DECK_PROCESSOR: DurableObjectNamespace<import("./src/index").DeckProcessor>;
 		SLIDES: R2Bucket;
 		AI: Ai;
 		ASSETS: Fetcher;